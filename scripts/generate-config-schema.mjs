@@ -0,0 +1,72 @@
+/**
+ * schemes/config_schema.json dosyasını applicationConfigurationSchema'dan
+ * üretir ve public/config.json'ı doğrular.
+ *
+ *   node scripts/generate-config-schema.mjs          dosyayı yeniden yazar
+ *   node scripts/generate-config-schema.mjs --check  fark varsa hata verir
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+
+import { build } from 'esbuild'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const check = process.argv.includes('--check')
+
+const bundle = await build({
+  stdin: {
+    contents: [
+      "export * from './jsonSchema'",
+      "export * from './validator'",
+      "export * from '../../configNamespaces'"
+    ].join('\n'),
+    resolveDir: `${root}src/api/common/Config/schemes`,
+    loader: 'ts'
+  },
+  bundle: true,
+  format: 'esm',
+  platform: 'node',
+  write: false,
+  logLevel: 'error'
+})
+const cacheDir = `${root}node_modules/.cache`
+await mkdir(cacheDir, { recursive: true })
+await writeFile(`${cacheDir}/config-schema.mjs`, bundle.outputFiles[0].text)
+const {
+  COMMON_CONFIG_NAMESPACES,
+  CONFIG_JSON_SCHEMA_PATH,
+  buildConfigJsonSchema,
+  formatConfigIssues,
+  validateConfigFile
+} = await import(pathToFileURL(`${cacheDir}/config-schema.mjs`).href)
+
+const schemaPath = `${root}${CONFIG_JSON_SCHEMA_PATH}`
+const generated = `${JSON.stringify(buildConfigJsonSchema(COMMON_CONFIG_NAMESPACES), null, 2)}\n`
+let failed = false
+
+if (check) {
+  const current = await readFile(schemaPath, 'utf8').catch(() => '')
+  if (current !== generated) {
+    console.error(
+      `${CONFIG_JSON_SCHEMA_PATH} is out of date, run \`npm run config:schema\``
+    )
+    failed = true
+  }
+} else {
+  await writeFile(schemaPath, generated)
+  console.log(`Wrote ${CONFIG_JSON_SCHEMA_PATH}`)
+}
+
+const runtimeConfig = JSON.parse(
+  await readFile(`${root}public/config.json`, 'utf8')
+)
+const { valid, issues } = validateConfigFile(
+  runtimeConfig,
+  COMMON_CONFIG_NAMESPACES
+)
+if (!valid) {
+  console.error(`public/config.json is invalid:\n${formatConfigIssues(issues)}`)
+  failed = true
+}
+
+process.exit(failed ? 1 : 0)
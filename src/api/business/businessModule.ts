@@ -1,13 +1,19 @@
-import { ServiceContainer } from '@bipweb/core'
+import {
+  createServiceToken,
+  type IAppModule,
+  type ModuleRegistrar
+} from '@bipweb/core'
 
-export class BusinessModule {
-  private container: ServiceContainer
+export const BusinessTokens = {
+  Business: createServiceToken<object>('Bussiness')
+} as const
 
-  constructor(container: ServiceContainer) {
-    this.container = container
-  }
+export class BusinessModule implements IAppModule {
+  readonly name = 'BusinessModule'
+  readonly imports = ['CommonModule', 'DataModule']
+  readonly exports = Object.values(BusinessTokens)
 
-  public register(): void {
-    this.container.registerInstance('Bussiness', {})
+  public register(container: ModuleRegistrar): void {
+    container.registerInstance(BusinessTokens.Business, {})
   }
 }
@@ -34,7 +34,9 @@ import {
 import { inject, singleton } from 'tsyringe'
 
 import { type ILogService, LogLevel } from '@bipweb/common'
-import { dependsOn } from '@bipweb/core'
+import { dependsOn, optionalDependency } from '@bipweb/core'
+
+import { CommonTokens } from '../tokens'
 
 import { isElectronStatus, now } from './helpers'
 import {
@@ -89,7 +91,10 @@ export const DEFAULT_ACTIVITY_MONITOR_CONFIG: Required<
   forceTraceVisible: true
 }
 
-@dependsOn('LogService')
+@dependsOn(
+  CommonTokens.LogService,
+  optionalDependency(CommonTokens.ConfigurationService)
+)
 @singleton()
 export class ActivityMonitor implements IActivityMonitor {
   public isInitialized: boolean = false
@@ -124,7 +129,7 @@ export class ActivityMonitor implements IActivityMonitor {
       ? document.visibilityState === 'visible'
       : true
   private windowVisible = true
-  private readonly tabId: string = this.generateTabId()
+  public readonly tabId: string = this.generateTabId()
   private leaderTabId: string | null = null
   private isLeaderTab = false
   private broadcastChannel?: BroadcastChannel
@@ -158,7 +163,9 @@ export class ActivityMonitor implements IActivityMonitor {
   private pendingEmit: { reason: ActivityReason; force: boolean } | null = null
   private emitScheduled = false
 
-  constructor(@inject('LogService') private logger: ILogService<any>) {
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>
+  ) {
     this._logger = this.logger.create({
       name: this._name
     })
@@ -245,6 +252,15 @@ export class ActivityMonitor implements IActivityMonitor {
     this.logger.info('ActivityMonitor stopped & cleaned')
   }
 
+  dispose(): void {
+    if (this.started) {
+      this.stop()
+      return
+    }
+    this.destroyed = true
+    this._statusSubject?.complete()
+  }
+
   subscribe(next: (status: ActivityStatus) => void) {
     return this.status$.subscribe(next)
   }
@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+/**
+ * ConfigurationService'teki `activity` namespace'i; verilmeyen alanlarda
+ * DEFAULT_ACTIVITY_MONITOR_CONFIG geçerlidir.
+ */
+export const activityConfigSchema = z.object({
+  inactivityTimeout: z
+    .number({ description: 'Idle time before the user is inactive (ms)' })
+    .int()
+    .min(1000)
+    .optional(),
+  systemIdleThreshold: z
+    .number({ description: 'Idle time treated as system idle (ms)' })
+    .int()
+    .min(1000)
+    .optional(),
+  screenLockCheckInterval: z
+    .number({ description: 'Screen lock heuristic interval (ms)' })
+    .int()
+    .min(1000)
+    .optional(),
+  throttleTime: z
+    .number({ description: 'Throttle of user interaction events (ms)' })
+    .int()
+    .min(0)
+    .optional(),
+  trackWindowStates: z.boolean().optional(),
+  trackUserInteractions: z.boolean().optional(),
+  trackSystemStates: z.boolean().optional(),
+  trackNetworkStates: z.boolean().optional(),
+  enableScreenLockDetection: z.boolean().optional(),
+  enableLeadership: z
+    .boolean({ description: 'Elect a leader tab over BroadcastChannel' })
+    .optional(),
+  leadershipStrategy: z.enum(['optimistic', 'strict']).optional(),
+  countWhileHidden: z
+    .boolean({ description: 'Count activity while the tab is hidden' })
+    .optional(),
+  minEmitIntervalMs: z
+    .number({ description: 'Minimum gap between activity events (ms)' })
+    .int()
+    .min(0)
+    .optional()
+})
+
+export type ActivityConfigNamespace = z.infer<typeof activityConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    activity: ActivityConfigNamespace
+  }
+}
+
+export const activityConfigNamespace: ConfigNamespaceDefinition<'activity'> = {
+  name: 'activity',
+  schema: activityConfigSchema
+}
@@ -1,2 +1,3 @@
 export * from './activity-monitor'
+export * from './config-schema'
 export * from './types'
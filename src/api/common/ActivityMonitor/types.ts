@@ -1,3 +1,4 @@
+import type { Observable } from 'rxjs'
 import { ILogObj, ISettingsParam, Logger } from 'tslog'
 
 import { IServiceWrapper } from '@bipweb/core'
@@ -170,5 +171,21 @@ export interface ActivityMonitorConfig {
 }
 
 export interface IActivityMonitor extends IServiceWrapper {
+  /**
+   * Identifier of this browser tab, also attached to log entries
+   */
+  readonly tabId: string
+
+  /**
+   * Current status, then every change; isLeaderTab tells which tab leads
+   */
+  readonly status$: Observable<ActivityStatus>
+
   configure(config: ActivityMonitorConfig): void
+
+  start(): void
+
+  stop(): void
+
+  dispose(): void
 }
@@ -2,15 +2,18 @@ import { Cron } from 'croner'
 import { BehaviorSubject, fromEvent, merge, Subject, takeUntil } from 'rxjs'
 import { inject, singleton } from 'tsyringe'
 
-import { dependsOn } from '@bipweb/core'
+import { dependsOn, optionalDependency } from '@bipweb/core'
 import { createID } from '@bipweb/utils'
 
 import type { ILogService } from '../Logger'
+import { createCorrelationId } from '../Logger/logContext'
+import { CommonTokens } from '../tokens'
 
 import { MessageBuilder } from './messageBuilder'
 import { MessageHandler } from './messageHandler'
 import {
   AuthManagerConfig,
+  AuthManagerRuntimeConfig,
   BwType,
   IAuthManager,
   InboundBwType,
@@ -24,8 +27,8 @@ import {
   TokenMessage
 } from './types'
 
-const channel = new BroadcastChannel('auth-manager')
 const guid = createID()
+const MAX_TRACKED_CORRELATIONS = 100
 const DEFAULT_CFG: Required<
   Omit<
     AuthManagerConfig,
@@ -48,7 +51,10 @@ const DEFAULT_CFG: Required<
   autoConnect: false
 }
 
-@dependsOn('LogService')
+@dependsOn(
+  CommonTokens.LogService,
+  optionalDependency(CommonTokens.ConfigurationService)
+)
 @singleton()
 export class AuthManager implements IAuthManager {
   public isInitialized: boolean = false
@@ -62,9 +68,17 @@ export class AuthManager implements IAuthManager {
   private pingScheduler: Cron | null = null
   private pingIntervalId: ReturnType<typeof setInterval> | null = null
   private pingTimeout: ReturnType<typeof setTimeout> | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private channel = new BroadcastChannel('auth-manager')
   private reconnectAttempts = 0
   private isManualClose = false
   private lastPongAt: number | null = null
+  private connectionCorrelationId?: string
+  /**
+   * Soket olaylarını bağlantının correlation id'siyle loglar
+   */
+  private connectionLogger: ILogService<any>
+  private sentCorrelations = new Map<number, string>()
   private sessionInfo: SessionContext = {
     status: Status.INIT,
     index: 0,
@@ -72,6 +86,7 @@ export class AuthManager implements IAuthManager {
     token: undefined,
     qr: undefined,
     msisdn: undefined,
+    userId: undefined,
     lastUpdate: Date.now(),
     guid,
     lastReason: null
@@ -91,11 +106,14 @@ export class AuthManager implements IAuthManager {
   private messageBuilder!: MessageBuilder
   private messageHandler!: MessageHandler
 
-  constructor(@inject('LogService') private logger: ILogService<any>) {
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>
+  ) {
     this._logger = this.logger.create({
       name: this._name
     })
     this._logger.init(`${this._name} created...`)
+    this.connectionLogger = this._logger
   }
 
   get isOpened(): boolean {
@@ -134,6 +152,34 @@ export class AuthManager implements IAuthManager {
     }
   }
 
+  /**
+   * Çalışırken config'i günceller. url değiştiyse açık/kurulmakta olan
+   * bağlantı yeni adrese yeniden kurulur; ping ayarları değiştiyse ping
+   * döngüsü yeniden başlatılır.
+   */
+  updateConfig(config: AuthManagerRuntimeConfig): void {
+    const previous = this.config
+    this.config = { ...this.config, ...config }
+
+    if (config.url !== undefined && config.url !== previous.url) {
+      this._logger.info('Authentication url changed', { url: config.url })
+      if (this.isConnectingOrOpen()) {
+        this.teardownConnection('CONFIG_UPDATED', false)
+        this.reconnectAttempts = 0
+        this.connect()
+        return
+      }
+    }
+
+    if (
+      this.isOpened &&
+      (this.config.pingIntervalSec !== previous.pingIntervalSec ||
+        this.config.useCronForPing !== previous.useCronForPing)
+    ) {
+      this.startPingCycle()
+    }
+  }
+
   connect(): void {
     if (this.isConnectingOrOpen()) {
       this._logger.warn('Connection already in progress or open')
@@ -143,6 +189,11 @@ export class AuthManager implements IAuthManager {
     this.connectionDestroy$.next()
     this.connectionDestroy$.complete()
     this.connectionDestroy$ = new Subject<void>()
+    this.connectionCorrelationId = createCorrelationId()
+    this.connectionLogger = this._logger.withCorrelation(
+      this.connectionCorrelationId
+    )
+    this.sentCorrelations.clear()
 
     this.socket = new WebSocket(`${this.config.url}?t=${Date.now()}`)
     const sock = this.socket
@@ -157,7 +208,7 @@ export class AuthManager implements IAuthManager {
       .subscribe(this.handleSocketEvent.bind(this))
 
     if (this.config.singleSessionEnforced) {
-      fromEvent<MessageEvent<SessionContext>>(channel, 'message')
+      fromEvent<MessageEvent<SessionContext>>(this.channel, 'message')
         .pipe(
           takeUntil(this.connectionDestroy$),
           takeUntil(this.globalDestroy$)
@@ -173,19 +224,28 @@ export class AuthManager implements IAuthManager {
     this.updateSessionContext({ status: Status.AUTHORIZING }, 'CONNECT_START')
   }
 
-  send(message: Message<OutboundBwType>): void {
+  /**
+   * Mesaj verilen (yoksa bağlantının) correlation id'siyle gönderilir;
+   * aynı id'li yanıtlar da bu id ile loglanır.
+   */
+  send(
+    message: Message<OutboundBwType>,
+    correlationId = this.connectionCorrelationId
+  ): void {
+    const logger = this._logger.withCorrelation(correlationId)
     if (this.isOpened && this.socket) {
       try {
         this.socket.send(JSON.stringify(message))
-        this._logger.debug('Message sent', {
+        this.trackCorrelation(message.id, correlationId)
+        logger.debug('Message sent', {
           bwType: message.bw,
           id: message.id
         })
       } catch (err) {
-        this._logger.error('Failed to send message', { err })
+        logger.error('Failed to send message', { err })
       }
     } else {
-      this._logger.warn('Attempted to send while socket not open', {
+      logger.warn('Attempted to send while socket not open', {
         bwType: message.bw
       })
     }
@@ -209,10 +269,11 @@ export class AuthManager implements IAuthManager {
 
   dispose(): void {
     this.isManualClose = true
+    this.clearReconnectTimer()
     this.teardownConnection('MANUAL_CLOSE')
     this.globalDestroy$.next()
     this.globalDestroy$.complete()
-    channel.close()
+    this.channel.close()
     this.sessionInfo$.complete()
   }
 
@@ -243,7 +304,7 @@ export class AuthManager implements IAuthManager {
   }
 
   private handleOpen(): void {
-    this._logger.info('WebSocket connection established')
+    this.connectionLogger.info('WebSocket connection established')
     this.isManualClose = false
     this.reconnectAttempts = 0
 
@@ -256,16 +317,19 @@ export class AuthManager implements IAuthManager {
       this.updateSessionContext({ token }, 'RECONNECT_MESSAGE_SENT')
     } else {
       this.send(this.messageBuilder.Init())
-      this.updateSessionContext({ token: undefined }, 'INIT_MESSAGE_SENT')
+      this.updateSessionContext(
+        { token: undefined, userId: undefined },
+        'INIT_MESSAGE_SENT'
+      )
     }
 
     this.startPingCycle()
 
-    channel.postMessage(this.sessionInfo)
+    this.channel.postMessage(this.sessionInfo)
   }
 
   private handleClose(event: CloseEvent): void {
-    this._logger.info('Connection closed', {
+    this.connectionLogger.info('Connection closed', {
       code: event.code,
       reason: event.reason
     })
@@ -283,33 +347,45 @@ export class AuthManager implements IAuthManager {
     try {
       parsed = JSON.parse(event.data)
     } catch (error) {
-      this._logger.error('Invalid JSON message', { error, data: event.data })
+      this.connectionLogger.error('Invalid JSON message', {
+        error,
+        data: event.data
+      })
       return
     }
 
     const message = parsed as Message<BwType>
     if (!message || typeof message.bw !== 'string') {
-      this._logger.warn('Malformed message shape', parsed)
+      this.connectionLogger.warn('Malformed message shape', parsed)
       return
     }
 
     if (isInboundBwType(message.bw)) {
-      this.processInbound(message as Message<InboundBwType>)
+      const correlationId = this.sentCorrelations.get(message.id)
+      this.processInbound(
+        message as Message<InboundBwType>,
+        correlationId
+          ? this._logger.withCorrelation(correlationId)
+          : this.connectionLogger
+      )
     } else {
-      this._logger.warn('Unknown message direction / bwType', {
+      this.connectionLogger.warn('Unknown message direction / bwType', {
         bw: message.bw
       })
     }
   }
 
   private handleError(event: Event): void {
-    this._logger.error('WebSocket error occurred', { event })
+    this.connectionLogger.error('WebSocket error occurred', { event })
   }
 
   // ---------- Inbound Processing ----------
 
-  private processInbound(message: Message<InboundBwType>): void {
-    this._logger.debug('Inbound message', { bw: message.bw, id: message.id })
+  private processInbound(
+    message: Message<InboundBwType>,
+    logger: ILogService<any>
+  ): void {
+    logger.debug('Inbound message', { bw: message.bw, id: message.id })
 
     switch (message.bw) {
       case 'qr': {
@@ -329,6 +405,7 @@ export class AuthManager implements IAuthManager {
           {
             qr: undefined,
             token: tokenMessage.apikey,
+            userId: tokenMessage.userId,
             keys: { mobile: tokenMessage.mobileIdentityKey },
             status: Status.AUTHORIZED
           },
@@ -342,7 +419,7 @@ export class AuthManager implements IAuthManager {
             )
             this.updateSessionContext({}, 'TOKEN_PERSISTED')
           } catch (e) {
-            this._logger.warn('Failed to persist token', { e })
+            logger.warn('Failed to persist token', { e })
           }
         }
         break
@@ -407,7 +484,9 @@ export class AuthManager implements IAuthManager {
     this.clearPingTimeout()
     this.pingTimeout = setTimeout(() => {
       const lastPongAge = this.lastPongAt ? Date.now() - this.lastPongAt : null
-      this._logger.error('Ping timeout - no pong received', { lastPongAge })
+      this.connectionLogger.error('Ping timeout - no pong received', {
+        lastPongAge
+      })
       this.updateSessionContext({}, 'PING_TIMEOUT')
       this.teardownConnection('PING_TIMEOUT', false)
       this.attemptReconnect()
@@ -439,16 +518,20 @@ export class AuthManager implements IAuthManager {
     if (this.reconnectAttempts < this.config.maxReconnectAttempts) {
       const delay = this.calculateReconnectDelay()
       const nextAttempt = this.reconnectAttempts + 1
-      this._logger.info(`Reconnect attempt ${nextAttempt} in ${delay}ms`)
+      this.connectionLogger.info(
+        `Reconnect attempt ${nextAttempt} in ${delay}ms`
+      )
       this.updateSessionContext({}, 'RECONNECT_ATTEMPT')
-      setTimeout(() => {
+      this.clearReconnectTimer()
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null
         if (this.isManualClose) return
         this.reconnectAttempts++
         this.updateSessionContext({ status: Status.AUTHORIZING }, 'AUTHORIZING')
         this.connect()
       }, delay)
     } else {
-      this._logger.error('Maximum reconnect attempts reached')
+      this.connectionLogger.error('Maximum reconnect attempts reached')
       this.updateSessionContext(
         { status: Status.UNAUTHORIZED },
         'RECONNECT_GIVE_UP'
@@ -456,6 +539,27 @@ export class AuthManager implements IAuthManager {
     }
   }
 
+  /**
+   * Yanıt gelmeyen mesajlar birikmesin diye en eski kayıtlar atılır
+   */
+  private trackCorrelation(
+    messageId: number,
+    correlationId: string | undefined
+  ): void {
+    if (!correlationId) return
+    this.sentCorrelations.set(messageId, correlationId)
+    if (this.sentCorrelations.size > MAX_TRACKED_CORRELATIONS) {
+      this.sentCorrelations.delete(this.sentCorrelations.keys().next().value!)
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
   private calculateReconnectDelay(): number {
     const cap = 30000
     const exp = Math.min(
@@ -0,0 +1,62 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+/**
+ * ConfigurationService'teki `auth` namespace'i. Soket adresi kök
+ * config'teki authenticationSocketUrl'den gelir; verilmeyen alanlarda
+ * AuthManager varsayılanları geçerlidir.
+ */
+export const authConfigSchema = z.object({
+  autoConnect: z
+    .boolean({ description: 'Connect to the auth socket right after init' })
+    .default(true),
+  maxReconnectAttempts: z
+    .number({ description: 'Reconnect attempts before giving up' })
+    .int()
+    .min(0)
+    .optional(),
+  baseReconnectDelay: z
+    .number({
+      description: 'Initial reconnect delay, doubled per attempt (ms)'
+    })
+    .int()
+    .min(0)
+    .optional(),
+  pingIntervalSec: z
+    .number({ description: 'Interval between ping messages (s)' })
+    .int()
+    .min(1)
+    .optional(),
+  pingTimeoutMs: z
+    .number({ description: 'Time to wait for a pong before reconnecting (ms)' })
+    .int()
+    .min(100)
+    .optional(),
+  useCronForPing: z
+    .boolean({ description: 'Schedule pings with cron instead of setInterval' })
+    .optional(),
+  singleSessionEnforced: z
+    .boolean({ description: 'Close other sessions of the same account' })
+    .optional(),
+  persistToken: z
+    .boolean({ description: 'Keep the session token in localStorage' })
+    .optional(),
+  tokenStorageKey: z
+    .string({ description: 'localStorage key of the session token' })
+    .min(1)
+    .optional()
+})
+
+export type AuthConfigNamespace = z.infer<typeof authConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    auth: AuthConfigNamespace
+  }
+}
+
+export const authConfigNamespace: ConfigNamespaceDefinition<'auth'> = {
+  name: 'auth',
+  schema: authConfigSchema
+}
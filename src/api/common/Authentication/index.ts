@@ -1,4 +1,5 @@
 export * from './authManager'
+export * from './configSchema'
 export * from './messageBuilder'
 export * from './messageHandler'
 export * from './types'
@@ -150,6 +150,7 @@ type SessionUpdateReason =
   | 'AUTHORIZED'
   | 'UNAUTHORIZED'
   | 'CLEANUP'
+  | 'CONFIG_UPDATED'
   | 'OTHER'
 
 type SessionContext = {
@@ -163,6 +164,7 @@ type SessionContext = {
   keys?: Partial<{ web: string; mobile: string }>
   token?: string
   msisdn?: string
+  userId?: string
 }
 
 /* Type Guards */
@@ -188,6 +190,21 @@ export interface AuthManagerConfig {
   logger?: Logger<ILogObj>
 }
 
+/**
+ * Bağlantı kurulduktan sonra updateConfig ile değiştirilebilen alanlar.
+ */
+type AuthManagerRuntimeConfig = Partial<
+  Pick<
+    AuthManagerConfig,
+    | 'url'
+    | 'maxReconnectAttempts'
+    | 'baseReconnectDelay'
+    | 'pingIntervalSec'
+    | 'pingTimeoutMs'
+    | 'useCronForPing'
+  >
+>
+
 interface IAuthManager extends IServiceWrapper {
   sessionInfo$: BehaviorSubject<SessionContext>
 
@@ -195,9 +212,14 @@ interface IAuthManager extends IServiceWrapper {
 
   configure(config: AuthManagerConfig): void
 
+  updateConfig(config: AuthManagerRuntimeConfig): void
+
   connect(): void
 
-  send(message: Message<OutboundBwType>): void
+  /**
+   * @param correlationId defaults to the id of the current connection
+   */
+  send(message: Message<OutboundBwType>, correlationId?: string): void
 
   logout(): void
 
@@ -212,6 +234,7 @@ export { INBOUND_BW_TYPES, isInboundBwType, OUTBOUND_BW_TYPES, State, Status }
 
 export type {
   ActivateMessage,
+  AuthManagerRuntimeConfig,
   BrowserData,
   BwType,
   IAuthManager,
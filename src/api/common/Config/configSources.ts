@@ -0,0 +1,202 @@
+import type { z } from 'zod'
+
+import { applicationConfigurationSchema } from './schemes'
+import type {
+  ConfigLayer,
+  ConfigLayerValues,
+  ConfigNamespaceDefinition,
+  IApplicationConfiguration
+} from './types'
+
+/**
+ * Düşükten yükseğe öncelik sırası; sonraki katman öncekini ezer.
+ */
+export const CONFIG_LAYERS: readonly ConfigLayer[] = [
+  'defaults',
+  'environment',
+  'remote',
+  'query',
+  'user',
+  'runtime'
+]
+
+type ConfigKey = keyof IApplicationConfiguration
+
+export type ConfigNamespaceMap = ReadonlyMap<string, ConfigNamespaceDefinition>
+
+/**
+ * Katmandaki her anahtarı şemadaki alanıyla ayrı ayrı doğrular; bilinmeyen
+ * veya geçersiz anahtarlar katmandan çıkarılır, tüm katman reddedilmez.
+ * Namespace anahtarlarında ({ network: {...} }) aynı kural alan bazında
+ * uygulanır.
+ */
+export function sanitizeLayer(
+  values: Record<string, unknown>,
+  namespaces: ConfigNamespaceMap = new Map()
+): {
+  values: ConfigLayerValues
+  issues: string[]
+} {
+  const result: Record<string, unknown> = {}
+  const issues: string[] = []
+
+  for (const [key, value] of Object.entries(values)) {
+    const namespace = namespaces.get(key)
+    if (!namespace) {
+      sanitizeField(applicationConfigurationSchema.shape, key, value, {
+        result,
+        issues,
+        path: key
+      })
+      continue
+    }
+    if (!isPlainObject(value)) {
+      issues.push(`${key}: expected an object`)
+      continue
+    }
+
+    const fields: Record<string, unknown> = {}
+    for (const [field, fieldValue] of Object.entries(value)) {
+      sanitizeField(namespace.schema.shape, field, fieldValue, {
+        result: fields,
+        issues,
+        path: `${key}.${field}`
+      })
+    }
+    if (Object.keys(fields).length) result[key] = fields
+  }
+
+  return { values: result as ConfigLayerValues, issues }
+}
+
+/**
+ * Katmanları düşükten yükseğe birleştirir; namespace nesneleri alan bazında
+ * birleşir, böylece üst katman yalnızca değiştirdiği alanları taşır.
+ */
+export function mergeLayers(
+  layers: (ConfigLayerValues | undefined)[],
+  namespaces: ConfigNamespaceMap
+): Record<string, any> {
+  return layers.reduce<Record<string, any>>((merged, values) => {
+    for (const [key, value] of Object.entries(values ?? {})) {
+      merged[key] = namespaces.has(key)
+        ? { ...merged[key], ...(value as object) }
+        : value
+    }
+    return merged
+  }, {})
+}
+
+export function getDefaultValue<K extends ConfigKey>(
+  key: K
+): IApplicationConfiguration[K] {
+  return applicationConfigurationSchema.shape[key].parse(
+    undefined
+  ) as IApplicationConfiguration[K]
+}
+
+/**
+ * Çalışma zamanı config dosyasını okur. Dosya yoksa (404) katman boş
+ * kalır; diğer hatalar çağırana iletilir.
+ */
+export async function fetchRemoteConfig(
+  url: string,
+  timeoutMs: number
+): Promise<Record<string, unknown>> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const response = await fetch(url, {
+      cache: 'no-store',
+      signal: controller.signal
+    })
+    if (response.status === 404) return {}
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`)
+    }
+    const body = await response.json()
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new Error(`${url} must contain a JSON object`)
+    }
+    delete body.$schema
+    return body
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * ?config.ttl=500&config.isDebugEnabled=false gibi parametreleri okur;
+ * ?config.network.baseIntervalMs=5000 namespace alanını ezer.
+ * Değer JSON olarak çözülemiyorsa string kabul edilir.
+ */
+export function readQueryOverrides(
+  search: string,
+  prefix: string
+): Record<string, unknown> {
+  const overrides: Record<string, any> = {}
+  new URLSearchParams(search).forEach((raw, name) => {
+    if (!name.startsWith(prefix)) return
+    const [key, field] = name.slice(prefix.length).split('.', 2)
+    if (field) {
+      overrides[key] = { ...overrides[key], [field]: parseValue(raw) }
+    } else {
+      overrides[key] = parseValue(raw)
+    }
+  })
+  return overrides
+}
+
+export function readStorageOverrides(key: string): Record<string, unknown> {
+  try {
+    const raw = localStorage.getItem(key)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return typeof parsed === 'object' && parsed !== null ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function writeStorageOverrides(
+  key: string,
+  values: ConfigLayerValues
+): void {
+  if (Object.keys(values).length) {
+    localStorage.setItem(key, JSON.stringify(values))
+  } else {
+    localStorage.removeItem(key)
+  }
+}
+
+function sanitizeField(
+  shape: z.ZodRawShape,
+  key: string,
+  value: unknown,
+  target: { result: Record<string, unknown>; issues: string[]; path: string }
+): void {
+  if (value === undefined) return
+  if (!(key in shape)) {
+    target.issues.push(`${target.path}: unknown key`)
+    return
+  }
+  const parsed = shape[key].safeParse(value)
+  if (parsed.success) {
+    target.result[key] = parsed.data
+  } else {
+    target.issues.push(
+      `${target.path}: ${parsed.error.issues.map((issue) => issue.message).join(', ')}`
+    )
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
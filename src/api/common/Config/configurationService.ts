@@ -1,45 +1,171 @@
+import {
+  BehaviorSubject,
+  distinctUntilChanged,
+  map,
+  Observable,
+  Subject
+} from 'rxjs'
 import { inject, singleton } from 'tsyringe'
-import { z } from 'zod'
+import type { z } from 'zod'
 
 import { dependsOn } from '@bipweb/core'
 
+import { CommonTokens } from '../tokens'
 import { type ILogService } from '../'
 
+import { migrateLegacyConfig } from './schemes/legacy'
+import {
+  CONFIG_LAYERS,
+  fetchRemoteConfig,
+  getDefaultValue,
+  mergeLayers,
+  readQueryOverrides,
+  readStorageOverrides,
+  sanitizeLayer,
+  writeStorageOverrides
+} from './configSources'
 import { applicationConfigurationSchema } from './schemes'
-import type { IApplicationConfiguration, IConfigurationService } from './types'
+import type {
+  ConfigKey,
+  ConfigLayer,
+  ConfigLayerValues,
+  ConfigNamespaceDefinition,
+  ConfigNamespaceName,
+  ConfigNamespaces,
+  ConfigPath,
+  ConfigPathValue,
+  ConfigurationChange,
+  ConfigurationServiceOptions,
+  ConfigValueExplanation,
+  IApplicationConfiguration,
+  IConfigurationService
+} from './types'
 
-@dependsOn('LogService')
+const DEFAULT_OPTIONS: Required<ConfigurationServiceOptions> = {
+  environment: {},
+  remoteConfigUrl: '/config.json',
+  remoteConfigTimeoutMs: 3000,
+  storageKey: 'bip.config.overrides',
+  queryPrefix: 'config.',
+  namespaces: []
+}
+
+type NamespaceValues = Partial<Record<ConfigNamespaceName, object>>
+
+@dependsOn(CommonTokens.LogService)
 @singleton()
 export class ConfigurationService implements IConfigurationService {
   isInitialized = false
   private readonly _name: string = 'ConfigurationService'
   private _logger: ILogService<any>
+  private options: Required<ConfigurationServiceOptions> = DEFAULT_OPTIONS
+  private layers = new Map<ConfigLayer, ConfigLayerValues>()
+  // Namespace eklendiğinde katmanlar yeniden doğrulanabilsin diye ham hâlleri
+  private rawLayers = new Map<ConfigLayer, Record<string, unknown>>()
+  private namespaces = new Map<string, ConfigNamespaceDefinition>()
 
-  constructor(@inject('LogService') private logger: ILogService<any>) {
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>
+  ) {
     this._logger = this.logger.create({
       name: this._name
     })
     this._logger.init(`${this._name} created...`)
 
     this._data = applicationConfigurationSchema.parse({})
+    this.dataSubject = new BehaviorSubject(this._data)
   }
 
   private _data: IApplicationConfiguration
+  private dataSubject: BehaviorSubject<IApplicationConfiguration>
+  private namespaceValues: NamespaceValues = {}
+  private namespacesSubject = new BehaviorSubject<NamespaceValues>({})
+  private changesSubject = new Subject<ConfigurationChange>()
+  public changes$: Observable<ConfigurationChange> =
+    this.changesSubject.asObservable()
 
   public get data(): IApplicationConfiguration {
     return { ...this._data } // Return a copy to prevent direct modification
   }
 
-  public init(): void {
+  /**
+   * Anahtarın güncel değerini hemen, sonra yalnızca değiştiğinde yayar.
+   */
+  public select<K extends keyof IApplicationConfiguration>(
+    key: K
+  ): Observable<IApplicationConfiguration[K]> {
+    return this.dataSubject.pipe(
+      map((data) => data[key]),
+      distinctUntilChanged()
+    )
+  }
+
+  public selectNamespace<N extends ConfigNamespaceName>(
+    name: N
+  ): Observable<ConfigNamespaces[N]> {
+    this.assertNamespace(name)
+    return this.namespacesSubject.pipe(
+      map((values) => values[name] as ConfigNamespaces[N]),
+      distinctUntilChanged()
+    )
+  }
+
+  public getNamespace<N extends ConfigNamespaceName>(
+    name: N
+  ): ConfigNamespaces[N] {
+    this.assertNamespace(name)
+    return { ...this.namespaceValues[name] } as ConfigNamespaces[N]
+  }
+
+  /**
+   * Boot sonrasında (ör. lazy yüklenen bir modül için) namespace ekler;
+   * mevcut katmanlardaki değerleri yeni şemaya göre doğrular.
+   */
+  public registerNamespace<N extends ConfigNamespaceName>(
+    definition: ConfigNamespaceDefinition<N>
+  ): void {
+    if (this.namespaces.has(definition.name)) {
+      throw new Error(
+        `Config namespace ${definition.name} is already registered`
+      )
+    }
+    this.namespaces.set(
+      definition.name,
+      definition as ConfigNamespaceDefinition
+    )
+    for (const [layer, raw] of this.rawLayers) {
+      this.setLayer(layer, raw, definition.name)
+    }
+    this.recompute()
+  }
+
+  /**
+   * Uzak config dosyasını ve (debug açıksa) URL parametrelerini katmanlara
+   * ekler. Uzak config alınamazsa servis diğer katmanlarla devam eder.
+   */
+  public async init(): Promise<void> {
     if (!this.isInitialized) {
+      await this.loadRuntimeLayers()
       this.isInitialized = true
-      // this._logger.debug(`${this._name} initialized`)
-      //await sleep(1000)
     }
   }
 
-  public configure(): void {
-    // No configuration needed for now
+  /**
+   * Build-time environment ve localStorage katmanlarını yükler.
+   */
+  public configure(options: ConfigurationServiceOptions = {}): void {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.options.namespaces.forEach((definition) =>
+      this.namespaces.set(definition.name, definition)
+    )
+    this.setLayer('environment', this.options.environment)
+    this.setLayer('user', readStorageOverrides(this.options.storageKey))
+    this.recompute()
+  }
+
+  public async reload(): Promise<void> {
+    this.setLayer('user', readStorageOverrides(this.options.storageKey))
+    await this.loadRuntimeLayers()
   }
 
   public get<K extends keyof IApplicationConfiguration>(
@@ -56,31 +182,259 @@ export class ConfigurationService implements IConfigurationService {
     )
   }
 
+  /**
+   * Noktalı yol (ör. network.baseIntervalMs) namespace alanını açıklar;
+   * varsayılan değer namespace şemasından okunur.
+   */
+  public explain<K extends ConfigPath>(key: K): ConfigValueExplanation<K> {
+    const [head, ...path] = key.split('.')
+    const namespace = this.namespaces.get(head)
+    if (!namespace && (path.length || !(head in this._data))) {
+      this.assertNamespace(head)
+    }
+    const root = head as keyof IApplicationConfiguration
+    const defaultValue = namespace
+      ? readPath(namespace.schema.parse({}), path).value
+      : getDefaultValue(root)
+    const value = namespace
+      ? readPath(this.namespaceValues[head as ConfigNamespaceName], path).value
+      : this._data[root]
+
+    const layers: ConfigValueExplanation<K>['layers'] = [
+      { layer: 'defaults', value: defaultValue }
+    ]
+    for (const layer of CONFIG_LAYERS) {
+      const supplied = readPath(this.layers.get(layer), [head, ...path])
+      if (supplied.found) {
+        layers.push({ layer, value: supplied.value })
+      }
+    }
+
+    return {
+      key,
+      value: value as ConfigPathValue<K>,
+      source: layers[layers.length - 1].layer,
+      layers
+    }
+  }
+
   public resetToDefaults(): void {
-    this._data = applicationConfigurationSchema.parse({})
+    for (const layer of ['runtime', 'user'] as const) {
+      this.layers.delete(layer)
+      this.rawLayers.delete(layer)
+    }
+    writeStorageOverrides(this.options.storageKey, {})
+    this.recompute()
   }
 
-  public setData(value: Partial<IApplicationConfiguration>): void {
+  public setUserOverrides(value: ConfigLayerValues): void {
+    const user = this.overlay('user', this.validate(value))
+    writeStorageOverrides(this.options.storageKey, user)
+    this.recompute()
+  }
+
+  public clearUserOverrides(keys?: ConfigKey[]): void {
+    const user = { ...this.layers.get('user') }
+    const removed = keys ?? (Object.keys(user) as ConfigKey[])
+    removed.forEach((key) => delete user[key])
+    writeStorageOverrides(this.options.storageKey, user)
+    this.layers.set('user', user)
+    this.rawLayers.set('user', user)
+    this.recompute()
+  }
+
+  public dispose(): void {
+    this.changesSubject.complete()
+    this.dataSubject.complete()
+    this.namespacesSubject.complete()
+  }
+
+  public setData(value: ConfigLayerValues): void {
     try {
-      this.validateAndSet(value)
+      this.overlay('runtime', this.validate(value))
+      this.recompute()
     } catch (error) {
       this._logger.error('Failed to update configuration', error)
       throw error
     }
   }
 
-  private validateAndSet(config?: Partial<IApplicationConfiguration>): void {
-    try {
-      const mergedConfig = { ...this._data, ...config }
-      this._data = applicationConfigurationSchema.parse(mergedConfig)
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        throw new Error(
-          `Invalid config data: ${error.issues.map((issue) => issue.message).join(', ')}`
+  private async loadRuntimeLayers(): Promise<void> {
+    const { remoteConfigUrl, remoteConfigTimeoutMs, queryPrefix } = this.options
+
+    if (remoteConfigUrl) {
+      try {
+        this.setLayer(
+          'remote',
+          await fetchRemoteConfig(remoteConfigUrl, remoteConfigTimeoutMs)
         )
+      } catch (error) {
+        this._logger.warn(`Remote config ${remoteConfigUrl} not loaded`, error)
       }
-      console.error('Unexpected error during config validation:', error)
-      throw error
     }
+
+    // URL override'ları yalnızca alt katmanlar debug'ı açıyorsa uygulanır
+    const debug =
+      this.merge(['environment', 'remote']).isDebugEnabled ??
+      getDefaultValue('isDebugEnabled')
+    this.setLayer(
+      'query',
+      debug && typeof window !== 'undefined'
+        ? readQueryOverrides(window.location.search, queryPrefix)
+        : {}
+    )
+
+    this.recompute()
   }
+
+  /**
+   * @param namespace verilirse yalnızca o namespace'e ait uyarılar loglanır
+   */
+  private setLayer(
+    layer: ConfigLayer,
+    raw: Record<string, unknown>,
+    namespace?: string
+  ): void {
+    const { config, deprecations } = migrateLegacyConfig(raw)
+    if (deprecations.length && !namespace) {
+      this._logger.warn(`Deprecated ${layer} config keys`, deprecations)
+    }
+    const { values, issues } = sanitizeLayer(config, this.namespaces)
+    const reported = namespace
+      ? issues.filter((issue) => issue.startsWith(`${namespace}.`))
+      : issues
+    if (reported.length) {
+      this._logger.warn(`Ignored invalid ${layer} config values`, reported)
+    }
+    this.rawLayers.set(layer, config)
+    this.layers.set(layer, values)
+  }
+
+  /**
+   * Doğrulanmış değerleri katmanın üzerine yazar; namespace alanları
+   * katmandaki diğer alanları silmez.
+   */
+  private overlay(layer: ConfigLayer, values: ConfigLayerValues) {
+    const next = mergeLayers([this.layers.get(layer), values], this.namespaces)
+    this.layers.set(layer, next)
+    this.rawLayers.set(layer, next)
+    return next
+  }
+
+  private merge(layers: readonly ConfigLayer[]): Record<string, any> {
+    return mergeLayers(
+      layers.map((layer) => this.layers.get(layer)),
+      this.namespaces
+    )
+  }
+
+  /**
+   * Kök şemayı ve tüm namespace'leri birlikte doğrular; hatalar tek
+   * mesajda toplanır, böylece boot sırasında hepsi birden görülür.
+   */
+  private recompute(): void {
+    const merged = this.merge(CONFIG_LAYERS)
+    const issues: string[] = []
+
+    const root = applicationConfigurationSchema.safeParse(merged)
+    if (!root.success) {
+      issues.push(...root.error.issues.map(formatIssue))
+    }
+
+    const namespaces: NamespaceValues = {}
+    for (const [name, { schema }] of this.namespaces) {
+      const parsed = schema.safeParse(merged[name] ?? {})
+      if (parsed.success) {
+        namespaces[name as ConfigNamespaceName] = parsed.data
+      } else {
+        issues.push(
+          ...parsed.error.issues.map((issue) =>
+            formatIssue({ ...issue, path: [name, ...issue.path] })
+          )
+        )
+      }
+    }
+
+    if (issues.length || !root.success) {
+      throw new Error(`Invalid configuration:\n  - ${issues.join('\n  - ')}`)
+    }
+    this.commit(root.data, namespaces)
+  }
+
+  private validate(config: ConfigLayerValues): ConfigLayerValues {
+    const { values, issues } = sanitizeLayer(config, this.namespaces)
+    if (issues.length) {
+      throw new Error(`Invalid config data: ${issues.join(', ')}`)
+    }
+    return values
+  }
+
+  private assertNamespace(name: string): void {
+    if (!this.namespaces.has(name)) {
+      throw new Error(`Config namespace ${name} is not registered`)
+    }
+  }
+
+  private commit(
+    next: IApplicationConfiguration,
+    nextNamespaces: NamespaceValues
+  ): void {
+    const previous = this._data
+    const changedKeys = (
+      Object.keys(next) as (keyof IApplicationConfiguration)[]
+    ).filter((key) => !Object.is(previous[key], next[key]))
+
+    // Değişmeyen namespace nesneleri korunur; selectNamespace gereksiz yayın yapmaz
+    const changedNamespaces: ConfigNamespaceName[] = []
+    for (const name of Object.keys(nextNamespaces) as ConfigNamespaceName[]) {
+      if (isSameValue(this.namespaceValues[name], nextNamespaces[name])) {
+        nextNamespaces[name] = this.namespaceValues[name]
+      } else {
+        changedNamespaces.push(name)
+      }
+    }
+
+    this._data = next
+    this.namespaceValues = nextNamespaces
+    if (!changedKeys.length && !changedNamespaces.length) return
+
+    this._logger.debug('Configuration changed', {
+      changedKeys,
+      changedNamespaces
+    })
+    if (changedKeys.length) this.dataSubject.next(next)
+    if (changedNamespaces.length) this.namespacesSubject.next(nextNamespaces)
+    this.changesSubject.next({
+      previous: { ...previous },
+      current: { ...next },
+      changedKeys,
+      changedNamespaces
+    })
+  }
+}
+
+function readPath(
+  source: unknown,
+  path: string[]
+): { found: boolean; value: unknown } {
+  let value = source
+  for (const segment of path) {
+    if (typeof value !== 'object' || value === null || !(segment in value)) {
+      return { found: false, value: undefined }
+    }
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return { found: true, value }
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  return `${issue.path.join('.') || '(root)'}: ${issue.message}`
+}
+
+/**
+ * Namespace değerleri JSON'a çevrilebilir olduğundan (dizi alanları her
+ * parse'ta yeni referans alır) karşılaştırma içerik üzerinden yapılır.
+ */
+function isSameValue(previous: unknown, next: unknown): boolean {
+  return JSON.stringify(previous) === JSON.stringify(next)
 }
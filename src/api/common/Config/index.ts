@@ -1,2 +1,5 @@
 export * from './configurationService'
+export * from './schemes/jsonSchema'
+export * from './schemes/legacy'
+export * from './schemes/validator'
 export type * from './types'
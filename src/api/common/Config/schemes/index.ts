@@ -29,7 +29,9 @@ export const applicationConfigurationSchema = z.object({
     .default('development'),
 
   isDebugEnabled: z
-    .boolean()
+    .boolean({
+      description: 'Enables debug logging, diagnostics and URL config overrides'
+    })
     .default(
       () => window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
     ),
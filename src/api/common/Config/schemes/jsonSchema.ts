@@ -0,0 +1,188 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../types'
+
+import { applicationConfigurationSchema } from '.'
+
+export interface JsonSchema {
+  $schema?: string
+  $comment?: string
+  title?: string
+  description?: string
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  propertyNames?: JsonSchema
+  items?: JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minItems?: number
+  maxItems?: number
+  default?: unknown
+  anyOf?: JsonSchema[]
+}
+
+export const CONFIG_JSON_SCHEMA_PATH = 'schemes/config_schema.json'
+
+/**
+ * Zod şemasını JSON Schema'ya çevirir. Yalnızca config şemalarında
+ * kullanılan tipler desteklenir; desteklenmeyen bir tip eklenirse hata
+ * fırlatılır ki üretilen dosya sessizce eksik kalmasın.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description
+  const result = convert(schema)
+  return description ? { description, ...result } : result
+}
+
+/**
+ * schemes/config_schema.json içeriği. Çalışma zamanı dosyaları kısmi
+ * olduğundan hiçbir alan zorunlu değildir; bilinmeyen anahtarlar reddedilir.
+ */
+export function buildConfigJsonSchema(
+  namespaces: ConfigNamespaceDefinition<any>[] = []
+): JsonSchema {
+  const schema = zodToJsonSchema(applicationConfigurationSchema)
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $comment:
+      'Generated from applicationConfigurationSchema by `npm run config:schema`; do not edit by hand',
+    title: 'BiP Web application configuration',
+    ...schema,
+    properties: {
+      $schema: { type: 'string' },
+      ...schema.properties,
+      ...Object.fromEntries(
+        namespaces.map(({ name, schema }) => [name, zodToJsonSchema(schema)])
+      )
+    }
+  }
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape
+      const properties: Record<string, JsonSchema> = {}
+      const required: string[] = []
+      for (const [key, value] of Object.entries<z.ZodTypeAny>(shape)) {
+        properties[key] = zodToJsonSchema(value)
+        if (!isOptional(value)) required.push(key)
+      }
+      return {
+        type: 'object',
+        properties,
+        ...(required.length && { required }),
+        additionalProperties: false
+      }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: 'object',
+        propertyNames: zodToJsonSchema(def.keyType),
+        additionalProperties: zodToJsonSchema(def.valueType)
+      }
+
+    case z.ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = zodToJsonSchema(def.innerType)
+      const value = readDefault(def.defaultValue)
+      return value === undefined ? inner : { ...inner, default: value }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType)
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { const: null }] }
+
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' }
+      for (const check of (def as z.ZodStringDef).checks) {
+        if (check.kind === 'min') result.minLength = check.value
+        else if (check.kind === 'max') result.maxLength = check.value
+        else if (check.kind === 'length') {
+          result.minLength = result.maxLength = check.value
+        } else if (check.kind === 'url') result.format = 'uri'
+        else if (check.kind === 'email') result.format = 'email'
+        else if (check.kind === 'uuid') result.format = 'uuid'
+        else if (check.kind === 'regex') result.pattern = check.regex.source
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' }
+      for (const check of (def as z.ZodNumberDef).checks) {
+        if (check.kind === 'int') result.type = 'integer'
+        else if (check.kind === 'min') {
+          if (check.inclusive) result.minimum = check.value
+          else result.exclusiveMinimum = check.value
+        } else if (check.kind === 'max') {
+          if (check.inclusive) result.maximum = check.value
+          else result.exclusiveMaximum = check.value
+        }
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] }
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = {
+        type: 'array',
+        items: zodToJsonSchema(def.type)
+      }
+      if (def.minLength) result.minItems = def.minLength.value
+      if (def.maxLength) result.maxItems = def.maxLength.value
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(zodToJsonSchema) }
+
+    default:
+      throw new Error(`Unsupported zod type for JSON Schema: ${def.typeName}`)
+  }
+}
+
+/**
+ * isOptional() varsayılanı hesapladığı için tip adına bakılır.
+ */
+function isOptional(schema: z.ZodTypeAny): boolean {
+  const { typeName } = schema._def
+  return (
+    typeName === z.ZodFirstPartyTypeKind.ZodOptional ||
+    typeName === z.ZodFirstPartyTypeKind.ZodDefault
+  )
+}
+
+/**
+ * Tarayıcıya bağlı varsayılanlar (ör. window.location) şema Node'da
+ * üretilirken hesaplanamaz; bu durumda şemaya default yazılmaz.
+ */
+function readDefault(factory: () => unknown): unknown {
+  try {
+    return factory()
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,61 @@
+import type { IApplicationConfiguration, LegacyConfigMigration } from '../types'
+
+/**
+ * Eski config_schema.json anahtarlarının güncel karşılıkları.
+ */
+export const LEGACY_CONFIG_KEYS: Readonly<
+  Record<string, keyof IApplicationConfiguration>
+> = {
+  appName: 'applicationName',
+  authApiAddress: 'authenticationApiUrl',
+  authSocketAddress: 'authenticationSocketUrl',
+  configMode: 'environmentMode',
+  debug: 'isDebugEnabled',
+  domain: 'primaryDomain',
+  mobileResourceName: 'mobileClientResourceName',
+  publicUrl: 'publicBaseUrl',
+  webResourceName: 'webClientResourceName',
+  xmppSocketAddress: 'xmppWebSocketUrl'
+}
+
+/**
+ * configMode kısa değerleri environmentMode enum'una çevrilir.
+ */
+const LEGACY_ENVIRONMENT_MODES: Readonly<Record<string, string>> = {
+  dev: 'development',
+  prod: 'production',
+  prp: 'testing',
+  test: 'testing'
+}
+
+/**
+ * Eski anahtarları yeni adlarına taşır ve her biri için uyarı üretir.
+ * İki ad birlikte verilmişse yeni anahtar kazanır.
+ */
+export function migrateLegacyConfig(
+  raw: Record<string, unknown>
+): LegacyConfigMigration {
+  const config: Record<string, unknown> = { ...raw }
+  const deprecations: string[] = []
+
+  for (const [legacyKey, key] of Object.entries(LEGACY_CONFIG_KEYS)) {
+    if (!(legacyKey in raw)) continue
+    delete config[legacyKey]
+
+    if (key in raw) {
+      deprecations.push(
+        `"${legacyKey}" is deprecated and ignored because "${key}" is also set`
+      )
+      continue
+    }
+
+    const value = raw[legacyKey]
+    config[key] =
+      key === 'environmentMode' && typeof value === 'string'
+        ? (LEGACY_ENVIRONMENT_MODES[value] ?? value)
+        : value
+    deprecations.push(`"${legacyKey}" is deprecated, use "${key}" instead`)
+  }
+
+  return { config, deprecations }
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod'
+
+import type {
+  ConfigNamespaceDefinition,
+  ConfigValidationIssue,
+  ConfigValidationResult
+} from '../types'
+
+import { LEGACY_CONFIG_KEYS } from './legacy'
+import { applicationConfigurationSchema } from '.'
+
+/**
+ * Çalışma zamanı config dosyasını (ör. public/config.json) şemaya göre
+ * doğrular. Hatalar `$.ttl: Expected number, received string` gibi
+ * dosyadaki yolu gösterecek şekilde döner.
+ */
+export function validateConfigFile(
+  value: unknown,
+  namespaces: ConfigNamespaceDefinition<any>[] = []
+): ConfigValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {
+      valid: false,
+      issues: [{ path: '$', message: 'Config file must contain a JSON object' }]
+    }
+  }
+
+  // Editör desteği için eklenen $schema referansı config değeri değildir
+  const config: Record<string, unknown> = { ...value }
+  delete config.$schema
+  const configFileSchema = applicationConfigurationSchema
+    .extend(
+      Object.fromEntries(
+        namespaces.map(({ name, schema }) => [
+          name,
+          schema.partial().strict().optional()
+        ])
+      )
+    )
+    .partial()
+    .strict()
+  const parsed = configFileSchema.safeParse(config)
+  if (parsed.success) return { valid: true, issues: [] }
+
+  return {
+    valid: false,
+    issues: parsed.error.issues.flatMap(toValidationIssues)
+  }
+}
+
+export function formatConfigIssues(issues: ConfigValidationIssue[]): string {
+  return issues.map(({ path, message }) => `${path}: ${message}`).join('\n')
+}
+
+function toValidationIssues(issue: z.ZodIssue): ConfigValidationIssue[] {
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    return issue.keys.map((key) => ({
+      path: formatPath([...issue.path, key]),
+      message: LEGACY_CONFIG_KEYS[key]
+        ? `Unknown key, renamed to "${LEGACY_CONFIG_KEYS[key]}"`
+        : 'Unknown key'
+    }))
+  }
+  return [{ path: formatPath(issue.path), message: issue.message }]
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, segment) =>
+      typeof segment === 'number'
+        ? `${result}[${segment}]`
+        : `${result}.${segment}`,
+    '$'
+  )
+}
@@ -1,3 +1,4 @@
+import type { Observable } from 'rxjs'
 import type { z } from 'zod'
 
 import { IServiceWrapper } from '@bipweb/core'
@@ -8,6 +9,139 @@ export type IApplicationConfiguration = z.infer<
   typeof applicationConfigurationSchema
 >
 
+/**
+ * Configuration layers, from lowest to highest precedence
+ */
+export type ConfigLayer =
+  | 'defaults'
+  | 'environment'
+  | 'remote'
+  | 'query'
+  | 'user'
+  | 'runtime'
+
+/**
+ * Service settings grouped under a top-level key, e.g. { network: { baseIntervalMs } }.
+ * Each service adds its namespace by merging into this interface next to its schema:
+ *
+ *   declare module '../Config/types' {
+ *     interface ConfigNamespaces { network: NetworkConfigNamespace }
+ *   }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ConfigNamespaces {}
+
+export type ConfigNamespaceName = keyof ConfigNamespaces & string
+
+export interface ConfigNamespaceDefinition<
+  N extends ConfigNamespaceName = ConfigNamespaceName
+> {
+  name: N
+  /**
+   * Every field needs a default or must be optional; layers may set any subset
+   */
+  schema: z.ZodObject<z.ZodRawShape, 'strip', z.ZodTypeAny, ConfigNamespaces[N]>
+}
+
+export type ConfigLayerValues = Partial<IApplicationConfiguration> & {
+  [N in ConfigNamespaceName]?: Partial<ConfigNamespaces[N]>
+}
+
+export type ConfigKey = keyof IApplicationConfiguration | ConfigNamespaceName
+
+/**
+ * Root key, namespace name or namespace field, e.g. 'network.baseIntervalMs'
+ */
+export type ConfigPath =
+  | ConfigKey
+  | {
+      [N in ConfigNamespaceName]: `${N}.${keyof ConfigNamespaces[N] & string}`
+    }[ConfigNamespaceName]
+
+export type ConfigPathValue<P extends ConfigPath> =
+  P extends keyof IApplicationConfiguration
+    ? IApplicationConfiguration[P]
+    : P extends ConfigNamespaceName
+      ? ConfigNamespaces[P]
+      : P extends `${infer N extends ConfigNamespaceName}.${infer F}`
+        ? F extends keyof ConfigNamespaces[N]
+          ? ConfigNamespaces[N][F]
+          : never
+        : never
+
+export interface ConfigurationServiceOptions {
+  /**
+   * Build-time environment file values
+   */
+  environment?: ConfigLayerValues
+  /**
+   * Runtime config fetched during init; null disables the remote layer
+   */
+  remoteConfigUrl?: string | null
+  remoteConfigTimeoutMs?: number
+  /**
+   * localStorage key holding user overrides
+   */
+  storageKey?: string
+  /**
+   * Query parameters starting with this prefix override values when debug is enabled,
+   * e.g. ?config.ttl=500
+   */
+  queryPrefix?: string
+  /**
+   * Service namespaces validated together with the root schema at boot;
+   * more can be added later with registerNamespace
+   */
+  namespaces?: ConfigNamespaceDefinition<any>[]
+}
+
+export interface ConfigValueExplanation<K extends ConfigPath = ConfigPath> {
+  key: K
+  value: ConfigPathValue<K>
+  /**
+   * Layer that supplied the effective value
+   */
+  source: ConfigLayer
+  /**
+   * Every layer that supplied a value for the key, lowest precedence first
+   */
+  layers: { layer: ConfigLayer; value: unknown }[]
+}
+
+export interface ConfigurationChange {
+  previous: IApplicationConfiguration
+  current: IApplicationConfiguration
+  changedKeys: (keyof IApplicationConfiguration)[]
+  /**
+   * Namespaces with at least one changed field
+   */
+  changedNamespaces: ConfigNamespaceName[]
+}
+
+export interface ConfigValidationIssue {
+  /**
+   * JSON path of the offending value, e.g. $.ttl
+   */
+  path: string
+  message: string
+}
+
+export interface ConfigValidationResult {
+  valid: boolean
+  issues: ConfigValidationIssue[]
+}
+
+export interface LegacyConfigMigration {
+  /**
+   * Config object with legacy keys renamed to their current names
+   */
+  config: Record<string, unknown>
+  /**
+   * One warning per legacy key found in the source object
+   */
+  deprecations: string[]
+}
+
 export interface IConfigurationService extends IServiceWrapper {
   /**
    * Current configuration data (readonly to prevent direct modification)
@@ -15,11 +149,24 @@ export interface IConfigurationService extends IServiceWrapper {
   readonly data: IApplicationConfiguration
 
   /**
-   * Updates configuration with partial data
+   * Emits after every update that changed at least one value
+   */
+  readonly changes$: Observable<ConfigurationChange>
+
+  /**
+   * Emits the current value of a key, then every subsequent change of it
+   * @param key Configuration key to observe
+   */
+  select<K extends keyof IApplicationConfiguration>(
+    key: K
+  ): Observable<IApplicationConfiguration[K]>
+
+  /**
+   * Updates configuration with partial data (runtime layer, not persisted)
    * @param value Partial configuration to update
    * @throws Error if validation fails
    */
-  setData(value: Partial<IApplicationConfiguration>): void
+  setData(value: ConfigLayerValues): void
 
   /**
    * Gets a specific configuration value by key
@@ -31,14 +178,63 @@ export interface IConfigurationService extends IServiceWrapper {
   ): IApplicationConfiguration[K]
 
   /**
-   * Resets configuration to default values
+   * Drops runtime and user overrides; defaults, environment, remote and query layers stay
    */
   resetToDefaults(): void
 
+  /**
+   * Tells which layer supplied the effective value of a key
+   * @param key Root key, namespace or dotted namespace path to explain
+   * @throws Error if the namespace is not registered
+   */
+  explain<K extends ConfigPath>(key: K): ConfigValueExplanation<K>
+
+  /**
+   * Persists user overrides to localStorage and applies them
+   * @throws Error if validation fails
+   */
+  setUserOverrides(value: ConfigLayerValues): void
+
+  /**
+   * Removes the given user overrides, or all of them when no keys are given
+   */
+  clearUserOverrides(keys?: ConfigKey[]): void
+
+  /**
+   * Adds a service namespace after boot and validates current layers against it
+   * @throws Error if the namespace is already registered or its values are invalid
+   */
+  registerNamespace<N extends ConfigNamespaceName>(
+    definition: ConfigNamespaceDefinition<N>
+  ): void
+
+  /**
+   * Gets the validated settings of a service namespace
+   * @throws Error if the namespace is not registered
+   */
+  getNamespace<N extends ConfigNamespaceName>(name: N): ConfigNamespaces[N]
+
+  /**
+   * Emits the current settings of a namespace, then every change of them
+   */
+  selectNamespace<N extends ConfigNamespaceName>(
+    name: N
+  ): Observable<ConfigNamespaces[N]>
+
+  /**
+   * Re-reads the remote, query and localStorage layers
+   */
+  reload(): Promise<void>
+
   /**
    * Checks if a specific configuration key exists and has a valid value
    * @param key Configuration key to check
    * @returns boolean indicating if the key exists and is valid
    */
   has(key: keyof IApplicationConfiguration): boolean
+
+  /**
+   * Completes the change streams
+   */
+  dispose(): void
 }
@@ -0,0 +1,46 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+/**
+ * ConfigurationService'teki `flags` namespace'i.
+ */
+export const flagsConfigSchema = z.object({
+  url: z
+    .string({ description: 'Endpoint returning feature flag definitions' })
+    .min(1)
+    .default('/flags.json'),
+  refreshIntervalMs: z
+    .number({
+      description: 'Reload interval of flag definitions, 0 disables (ms)'
+    })
+    .int()
+    .min(0)
+    .default(5 * 60_000),
+  requestTimeoutMs: z
+    .number({ description: 'Timeout of the flag definitions request (ms)' })
+    .int()
+    .min(100)
+    .default(5000),
+  cacheMaxAgeMs: z
+    .number({
+      description:
+        'Cached definitions older than this are ignored on start (ms)'
+    })
+    .int()
+    .min(0)
+    .default(7 * 24 * 60 * 60_000)
+})
+
+export type FlagsConfigNamespace = z.infer<typeof flagsConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    flags: FlagsConfigNamespace
+  }
+}
+
+export const flagsConfigNamespace: ConfigNamespaceDefinition<'flags'> = {
+  name: 'flags',
+  schema: flagsConfigSchema
+}
@@ -0,0 +1,177 @@
+import { z } from 'zod'
+
+import type {
+  FeatureFlagContext,
+  FeatureFlagDefinition,
+  FeatureFlagDocument,
+  FeatureFlagEvaluation,
+  RolloutAttribute
+} from './types'
+
+const rolloutAttributeSchema = z.enum(['msisdn', 'userId', 'guid'])
+
+const flagDefinitionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('boolean'),
+    enabled: z.boolean(),
+    rollout: z
+      .object({
+        percentage: z.number().min(0).max(100),
+        by: rolloutAttributeSchema.optional()
+      })
+      .optional()
+  }),
+  z.object({
+    type: z.literal('variant'),
+    enabled: z.boolean(),
+    variants: z
+      .array(z.object({ key: z.string().min(1), weight: z.number().min(0) }))
+      .min(1),
+    defaultVariant: z.string().min(1),
+    by: rolloutAttributeSchema.optional()
+  })
+])
+
+const DEFAULT_ROLLOUT_ATTRIBUTE: RolloutAttribute = 'msisdn'
+
+/**
+ * Endpoint yanıtını doğrular. Geçersiz flag'ler tek tek atılır; belge
+ * biçimi bozuksa hata fırlatılır.
+ */
+export function parseFlagDocument(raw: unknown): {
+  document: FeatureFlagDocument
+  issues: string[]
+} {
+  const parsed = z
+    .object({
+      version: z.union([z.string(), z.number()]).optional(),
+      flags: z.record(z.unknown())
+    })
+    .safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid feature flag document: ${parsed.error.issues.map((issue) => issue.message).join(', ')}`
+    )
+  }
+
+  const flags: Record<string, FeatureFlagDefinition> = {}
+  const issues: string[] = []
+  for (const [key, value] of Object.entries(parsed.data.flags)) {
+    const definition = flagDefinitionSchema.safeParse(value)
+    if (definition.success) {
+      flags[key] = definition.data
+    } else {
+      issues.push(
+        `${key}: ${definition.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`
+      )
+    }
+  }
+
+  return { document: { version: parsed.data.version, flags }, issues }
+}
+
+/**
+ * Flag'i yerelde değerlendirir. Aynı kullanıcı aynı flag için her zaman
+ * aynı kovaya düşer; kova flag anahtarıyla tuzlandığından flag'ler
+ * birbirinden bağımsız dağılır.
+ */
+export function evaluateFlag(
+  key: string,
+  definition: FeatureFlagDefinition | undefined,
+  context: FeatureFlagContext
+): FeatureFlagEvaluation {
+  if (!definition) {
+    return { key, enabled: false, variant: null, reason: 'missing' }
+  }
+
+  if (definition.type === 'boolean') {
+    if (!definition.enabled) {
+      return { key, enabled: false, variant: null, reason: 'disabled' }
+    }
+    const { rollout } = definition
+    if (!rollout || rollout.percentage >= 100) {
+      return { key, enabled: true, variant: null, reason: 'enabled' }
+    }
+    const identity = context[rollout.by ?? DEFAULT_ROLLOUT_ATTRIBUTE]
+    if (!identity) {
+      return { key, enabled: false, variant: null, reason: 'no-identity' }
+    }
+    const included = getBucket(key, identity) < rollout.percentage
+    return {
+      key,
+      enabled: included,
+      variant: null,
+      reason: included ? 'rollout-included' : 'rollout-excluded'
+    }
+  }
+
+  if (!definition.enabled) {
+    return {
+      key,
+      enabled: false,
+      variant: definition.defaultVariant,
+      reason: 'disabled'
+    }
+  }
+  const identity = context[definition.by ?? DEFAULT_ROLLOUT_ATTRIBUTE]
+  if (!identity) {
+    return {
+      key,
+      enabled: true,
+      variant: definition.defaultVariant,
+      reason: 'no-identity'
+    }
+  }
+  return {
+    key,
+    enabled: true,
+    variant: pickVariant(definition.variants, getBucket(key, identity)),
+    reason: 'variant'
+  }
+}
+
+export function evaluateFlags(
+  document: FeatureFlagDocument,
+  context: FeatureFlagContext
+): Record<string, FeatureFlagEvaluation> {
+  return Object.fromEntries(
+    Object.entries(document.flags).map(([key, definition]) => [
+      key,
+      evaluateFlag(key, definition, context)
+    ])
+  )
+}
+
+/**
+ * [0, 100) aralığında, 0.01 hassasiyetle kararlı kova değeri.
+ */
+export function getBucket(flagKey: string, identity: string): number {
+  return (fnv1a(`${flagKey}:${identity}`) % 10000) / 100
+}
+
+function pickVariant(
+  variants: { key: string; weight: number }[],
+  bucket: number
+): string {
+  const total = variants.reduce((sum, { weight }) => sum + weight, 0)
+  if (total <= 0) return variants[0].key
+
+  let threshold = 0
+  for (const variant of variants) {
+    threshold += (variant.weight / total) * 100
+    if (bucket < threshold) return variant.key
+  }
+  return variants[variants.length - 1].key
+}
+
+/**
+ * 32 bit FNV-1a; kriptografik değil, yalnızca dağılım için.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
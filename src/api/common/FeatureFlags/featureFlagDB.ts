@@ -0,0 +1,27 @@
+import Dexie, { Table } from 'dexie'
+
+import type { FeatureFlagDocument } from './types'
+
+export interface FeatureFlagCacheRecord {
+  /**
+   * FeatureFlagSource.id
+   */
+  key: string
+  document: FeatureFlagDocument
+  fetchedAt: number
+}
+
+/**
+ * Son başarılı flag yüklemesini saklar; uygulama çevrimdışı açıldığında
+ * tanımlar buradan okunur.
+ */
+export class FeatureFlagDB extends Dexie {
+  public snapshots!: Table<FeatureFlagCacheRecord, string>
+
+  constructor() {
+    super('FeatureFlagDB')
+    this.version(1).stores({
+      snapshots: '&key, fetchedAt'
+    })
+  }
+}
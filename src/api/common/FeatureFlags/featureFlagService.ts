@@ -0,0 +1,279 @@
+import {
+  BehaviorSubject,
+  combineLatest,
+  distinctUntilChanged,
+  map,
+  Observable,
+  skip,
+  Subscription
+} from 'rxjs'
+import { inject, singleton } from 'tsyringe'
+
+import { dependsOn, optionalDependency } from '@bipweb/core'
+
+import type { IAuthManager, SessionContext } from '../Authentication'
+import type { IConfigurationService } from '../Config'
+import type { ILogService } from '../Logger'
+import { CommonTokens } from '../tokens'
+
+import type { FlagsConfigNamespace } from './configSchema'
+import { evaluateFlag, evaluateFlags, parseFlagDocument } from './evaluator'
+import { FeatureFlagDB } from './featureFlagDB'
+import { httpFlagSource } from './sources'
+import type {
+  FeatureFlagContext,
+  FeatureFlagEvaluation,
+  FeatureFlagServiceConfig,
+  FeatureFlagSnapshot,
+  FeatureFlagSource,
+  IFeatureFlagService
+} from './types'
+
+const EMPTY_SNAPSHOT: FeatureFlagSnapshot = {
+  document: { flags: {} },
+  source: 'none',
+  fetchedAt: null
+}
+
+/**
+ * Flag tanımlarını uzak JSON'dan yükler, IndexedDB'de önbellekler ve
+ * oturumdaki msisdn/userId ile yerelde değerlendirir. Ağ yoksa son
+ * önbellek, o da yoksa boş tanımlarla (tüm flag'ler kapalı) başlar.
+ */
+@dependsOn(
+  CommonTokens.LogService,
+  CommonTokens.ConfigurationService,
+  optionalDependency(CommonTokens.AuthManager)
+)
+@singleton()
+export class FeatureFlagService implements IFeatureFlagService {
+  public isInitialized: boolean = false
+  private readonly _name: string = 'FeatureFlagService'
+  private _logger: ILogService<any>
+  private config!: Required<Omit<FeatureFlagServiceConfig, 'source'>>
+  private source!: FeatureFlagSource
+  private customSource = false
+  private db: FeatureFlagDB | null = null
+  private refreshTimer: ReturnType<typeof setInterval> | null = null
+  private subscription = new Subscription()
+
+  private snapshotSubject = new BehaviorSubject<FeatureFlagSnapshot>(
+    EMPTY_SNAPSHOT
+  )
+  public snapshot$: Observable<FeatureFlagSnapshot> =
+    this.snapshotSubject.asObservable()
+
+  private contextSubject = new BehaviorSubject<FeatureFlagContext>({})
+
+  private flagsSubject = new BehaviorSubject<
+    Record<string, FeatureFlagEvaluation>
+  >({})
+  public flags$: Observable<Record<string, FeatureFlagEvaluation>> =
+    this.flagsSubject.asObservable()
+
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>,
+    @inject(CommonTokens.ConfigurationService)
+    private configuration: IConfigurationService,
+    @inject(CommonTokens.AuthManager)
+    private authManager: IAuthManager | undefined
+  ) {
+    this._logger = this.logger.create({
+      name: this._name
+    })
+    this._logger.init(`${this._name} created...`)
+  }
+
+  public configure(config: FeatureFlagServiceConfig = {}): void {
+    const { source, ...rest } = config
+    this.config = { ...this.configuration.getNamespace('flags'), ...rest }
+    this.customSource = !!source
+    this.source = source ?? httpFlagSource(this.config.url)
+  }
+
+  /**
+   * Önbellekteki tanımları hemen uygular, ardından uzak tanımları bekler.
+   * Uzak yükleme başarısız olsa da init tamamlanır.
+   */
+  public async init(): Promise<void> {
+    if (this.isInitialized) return
+
+    this.subscription.add(
+      combineLatest([this.snapshotSubject, this.contextSubject])
+        .pipe(
+          map(([snapshot, context]) =>
+            evaluateFlags(snapshot.document, context)
+          )
+        )
+        .subscribe(this.flagsSubject)
+    )
+    if (this.authManager) {
+      this.subscription.add(
+        this.authManager.sessionInfo$
+          .pipe(
+            map(toFlagContext),
+            distinctUntilChanged(
+              (previous, current) =>
+                previous.msisdn === current.msisdn &&
+                previous.userId === current.userId &&
+                previous.guid === current.guid
+            )
+          )
+          .subscribe(this.contextSubject)
+      )
+    }
+    this.subscription.add(
+      this.configuration
+        .selectNamespace('flags')
+        .pipe(skip(1))
+        .subscribe((flags) => this.applyConfig(flags))
+    )
+
+    await this.loadCache()
+    await this.refresh()
+    this.scheduleRefresh()
+    this.isInitialized = true
+  }
+
+  public isEnabled(key: string, defaultValue = false): boolean {
+    const evaluation = this.flagsSubject.getValue()[key]
+    return evaluation ? evaluation.enabled : defaultValue
+  }
+
+  public getVariant(key: string, defaultVariant?: string): string | undefined {
+    return this.flagsSubject.getValue()[key]?.variant ?? defaultVariant
+  }
+
+  public evaluate(key: string): FeatureFlagEvaluation {
+    return this.flagsSubject.getValue()[key] ?? evaluateFlag(key, undefined, {})
+  }
+
+  public select(key: string): Observable<FeatureFlagEvaluation> {
+    return this.flagsSubject.pipe(
+      map((flags) => flags[key] ?? evaluateFlag(key, undefined, {})),
+      distinctUntilChanged(
+        (previous, current) =>
+          previous.enabled === current.enabled &&
+          previous.variant === current.variant &&
+          previous.reason === current.reason
+      )
+    )
+  }
+
+  public async refresh(): Promise<void> {
+    const controller = new AbortController()
+    const timer = setTimeout(
+      () => controller.abort(),
+      this.config.requestTimeoutMs
+    )
+    try {
+      const { document, issues } = parseFlagDocument(
+        await this.source.load(controller.signal)
+      )
+      if (issues.length) {
+        this._logger.warn('Ignored invalid feature flags', issues)
+      }
+      const snapshot: FeatureFlagSnapshot = {
+        document,
+        source: 'remote',
+        fetchedAt: Date.now()
+      }
+      this.snapshotSubject.next(snapshot)
+      await this.saveCache(snapshot)
+    } catch (error) {
+      this._logger.warn(
+        `Feature flags not loaded from ${this.source.id}, keeping ${this.snapshotSubject.getValue().source} definitions`,
+        error
+      )
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  public dispose(): void {
+    this.stopRefresh()
+    this.subscription.unsubscribe()
+    this.subscription = new Subscription()
+    this.db?.close()
+    this.db = null
+    this.flagsSubject.complete()
+    this.snapshotSubject.complete()
+    this.contextSubject.complete()
+    this.isInitialized = false
+  }
+
+  private applyConfig(flags: FlagsConfigNamespace): void {
+    const urlChanged = flags.url !== this.config.url
+    this.config = { ...this.config, ...flags }
+    this.scheduleRefresh()
+    if (urlChanged && !this.customSource) {
+      this.source = httpFlagSource(flags.url)
+      this.refresh()
+    }
+  }
+
+  private scheduleRefresh(): void {
+    this.stopRefresh()
+    if (this.config.refreshIntervalMs > 0) {
+      this.refreshTimer = setInterval(
+        () => this.refresh(),
+        this.config.refreshIntervalMs
+      )
+    }
+  }
+
+  private stopRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer)
+      this.refreshTimer = null
+    }
+  }
+
+  /**
+   * IndexedDB yoksa (ör. gizli pencere) önbellek sessizce devre dışı kalır.
+   */
+  private getDb(): FeatureFlagDB | null {
+    if (!this.db && typeof indexedDB !== 'undefined') {
+      this.db = new FeatureFlagDB()
+    }
+    return this.db
+  }
+
+  private async loadCache(): Promise<void> {
+    try {
+      const record = await this.getDb()?.snapshots.get(this.source.id)
+      if (!record) return
+      if (Date.now() - record.fetchedAt > this.config.cacheMaxAgeMs) {
+        this._logger.debug('Cached feature flags expired')
+        return
+      }
+      this.snapshotSubject.next({
+        document: record.document,
+        source: 'cache',
+        fetchedAt: record.fetchedAt
+      })
+    } catch (error) {
+      this._logger.warn('Failed to read cached feature flags', error)
+    }
+  }
+
+  private async saveCache(snapshot: FeatureFlagSnapshot): Promise<void> {
+    try {
+      await this.getDb()?.snapshots.put({
+        key: this.source.id,
+        document: snapshot.document,
+        fetchedAt: snapshot.fetchedAt!
+      })
+    } catch (error) {
+      this._logger.warn('Failed to cache feature flags', error)
+    }
+  }
+}
+
+function toFlagContext(session: SessionContext): FeatureFlagContext {
+  return {
+    msisdn: session.msisdn || undefined,
+    userId: session.userId || undefined,
+    guid: session.guid
+  }
+}
@@ -0,0 +1,6 @@
+export * from './configSchema'
+export * from './evaluator'
+export * from './featureFlagDB'
+export * from './featureFlagService'
+export * from './sources'
+export * from './types'
@@ -0,0 +1,31 @@
+import type { FeatureFlagSource } from './types'
+
+/**
+ * Flag tanımlarını bir JSON endpoint'inden okur.
+ */
+export function httpFlagSource(url: string): FeatureFlagSource {
+  return {
+    id: url,
+    async load(signal) {
+      const response = await fetch(url, { cache: 'no-store', signal })
+      if (!response.ok) {
+        throw new Error(`${url} responded with ${response.status}`)
+      }
+      return response.json()
+    }
+  }
+}
+
+/**
+ * Sabit bir JSON nesnesini kaynak olarak kullanır; testlerde ve yerel
+ * geliştirmede endpoint yerine geçer.
+ */
+export function staticFlagSource(
+  document: unknown,
+  id = 'static'
+): FeatureFlagSource {
+  return {
+    id,
+    load: async () => structuredClone(document)
+  }
+}
@@ -0,0 +1,128 @@
+import type { Observable } from 'rxjs'
+
+import type { IServiceWrapper } from '@bipweb/core'
+
+/**
+ * Yüzdelik dağıtımda kullanıcıyı kovaya yerleştiren oturum alanı.
+ */
+export type RolloutAttribute = 'msisdn' | 'userId' | 'guid'
+
+export interface FlagRollout {
+  /**
+   * 0-100 arası; kullanıcıların bu kadarı flag'i açık görür
+   */
+  percentage: number
+  by?: RolloutAttribute
+}
+
+export interface BooleanFlagDefinition {
+  type: 'boolean'
+  enabled: boolean
+  rollout?: FlagRollout
+}
+
+export interface FlagVariant {
+  key: string
+  /**
+   * Göreli ağırlık; toplamın 100 olması gerekmez
+   */
+  weight: number
+}
+
+export interface VariantFlagDefinition {
+  type: 'variant'
+  enabled: boolean
+  variants: FlagVariant[]
+  /**
+   * Flag kapalıyken veya kimlik yokken dönen varyant
+   */
+  defaultVariant: string
+  by?: RolloutAttribute
+}
+
+export type FeatureFlagDefinition =
+  | BooleanFlagDefinition
+  | VariantFlagDefinition
+
+/**
+ * Flag endpoint'inin döndürdüğü JSON.
+ */
+export interface FeatureFlagDocument {
+  version?: string | number
+  flags: Record<string, FeatureFlagDefinition>
+}
+
+export type FeatureFlagContext = Partial<Record<RolloutAttribute, string>>
+
+export type FeatureFlagEvaluationReason =
+  | 'disabled'
+  | 'enabled'
+  | 'rollout-included'
+  | 'rollout-excluded'
+  | 'variant'
+  | 'no-identity'
+  | 'missing'
+
+export interface FeatureFlagEvaluation {
+  key: string
+  enabled: boolean
+  variant: string | null
+  reason: FeatureFlagEvaluationReason
+}
+
+export type FeatureFlagSnapshotSource = 'none' | 'cache' | 'remote'
+
+export interface FeatureFlagSnapshot {
+  document: FeatureFlagDocument
+  source: FeatureFlagSnapshotSource
+  fetchedAt: number | null
+}
+
+/**
+ * Flag tanımlarının alındığı yer. Testlerde staticFlagSource ile yerel
+ * JSON verilebilir.
+ */
+export interface FeatureFlagSource {
+  /**
+   * IndexedDB önbelleğinin anahtarı
+   */
+  readonly id: string
+  load(signal: AbortSignal): Promise<unknown>
+}
+
+export interface FeatureFlagServiceConfig {
+  /**
+   * Verilmezse `flags` config namespace'indeki url kullanılır
+   */
+  source?: FeatureFlagSource
+  url?: string
+  refreshIntervalMs?: number
+  requestTimeoutMs?: number
+  cacheMaxAgeMs?: number
+}
+
+export interface IFeatureFlagService extends IServiceWrapper {
+  /**
+   * Tüm flag'lerin güncel değerlendirmesi; tanımlar veya oturum değişince yayar
+   */
+  readonly flags$: Observable<Record<string, FeatureFlagEvaluation>>
+
+  readonly snapshot$: Observable<FeatureFlagSnapshot>
+
+  configure(config: FeatureFlagServiceConfig): void
+
+  isEnabled(key: string, defaultValue?: boolean): boolean
+
+  getVariant(key: string, defaultVariant?: string): string | undefined
+
+  evaluate(key: string): FeatureFlagEvaluation
+
+  select(key: string): Observable<FeatureFlagEvaluation>
+
+  /**
+   * Tanımları kaynaktan yeniden yükler; hata olursa son tanımlar kalır
+   */
+  refresh(): Promise<void>
+
+  dispose(): void
+}
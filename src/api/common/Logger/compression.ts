@@ -0,0 +1,19 @@
+/**
+ * CompressionStream olmayan tarayıcılarda veri sıkıştırılmadan saklanır
+ * veya gönderilir
+ */
+export function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined'
+}
+
+export function gzip(text: string): Promise<ArrayBuffer> {
+  return new Response(
+    new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))
+  ).arrayBuffer()
+}
+
+export function gunzip(data: ArrayBuffer): Promise<string> {
+  return new Response(
+    new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'))
+  ).text()
+}
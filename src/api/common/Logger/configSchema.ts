@@ -0,0 +1,204 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+import { LOG_LEVEL_IDS } from './logQuery'
+import type { LogLevelName } from './types'
+
+/**
+ * ConfigurationService'teki `storage` namespace'i: IndexedDB'deki log
+ * kayıtlarının ve arşivlerin saklama süresi, boyut sınırları, bakım
+ * zamanlaması ve şifrelenmesi.
+ */
+export const storageConfigSchema = z.object({
+  retentionDays: z
+    .number({ description: 'Logs older than this are deleted (days)' })
+    .int()
+    .min(1)
+    .default(30),
+  retentionDaysByLevel: z
+    .record(
+      z.enum(Object.keys(LOG_LEVEL_IDS) as [LogLevelName, ...LogLevelName[]]),
+      z.number().int().min(1),
+      { description: 'Retention per level name, overriding retentionDays' }
+    )
+    .default({}),
+  archiveRetentionDays: z
+    .number({
+      description: 'Archives whose newest entry is older than this are deleted'
+    })
+    .int()
+    .min(1)
+    .default(90),
+  quotaMb: z
+    .number({
+      description:
+        'Oldest archives, then oldest logs are deleted above this estimated size (MB)'
+    })
+    .min(1)
+    .default(50),
+  originUsageRatio: z
+    .number({
+      description:
+        'Logs are also evicted while the origin uses more than this share of the browser quota'
+    })
+    .min(0.1)
+    .max(1)
+    .default(0.9),
+  rotateAfterEntries: z
+    .number({
+      description:
+        'Logs beyond half of this count are moved to archives once it is exceeded'
+    })
+    .int()
+    .min(100)
+    .default(10000),
+  maintenanceCron: z
+    .string({
+      description:
+        'TaskManager cron running retention, rotation and quota checks'
+    })
+    .default('*/15 * * * *'),
+  encryption: z
+    .enum(['none', 'device', 'passphrase'], {
+      description:
+        'Encryption of stored log messages; passphrase mode buffers logs until unlockLogs is called'
+    })
+    .default('device')
+})
+
+export type StorageConfigNamespace = z.infer<typeof storageConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    storage: StorageConfigNamespace
+  }
+}
+
+export const storageConfigNamespace: ConfigNamespaceDefinition<'storage'> = {
+  name: 'storage',
+  schema: storageConfigSchema
+}
+
+/**
+ * ConfigurationService'teki `logging` namespace'i: kayıtları sunucuya
+ * gönderen HTTP transport'u. httpUrl boşsa transport kurulmaz.
+ */
+export const loggingConfigSchema = z.object({
+  httpUrl: z
+    .string({
+      description: 'Endpoint receiving log batches; disabled when null'
+    })
+    .url()
+    .nullable()
+    .default(null),
+  httpMinLevel: z
+    .number({
+      description:
+        'Lowest tslog level id sent (0 silly, 3 info, 4 warn, 5 error, 6 fatal)'
+    })
+    .int()
+    .min(0)
+    .max(6)
+    .default(4),
+  httpBatchSize: z
+    .number({ description: 'Records per request' })
+    .int()
+    .min(1)
+    .default(50),
+  httpFlushIntervalMs: z
+    .number({ description: 'Longest time a record waits before sending (ms)' })
+    .int()
+    .min(1000)
+    .default(10000),
+  httpMaxStoredBatches: z
+    .number({
+      description: 'Unsent batches kept while offline; oldest are dropped'
+    })
+    .int()
+    .min(1)
+    .default(100)
+})
+
+export type LoggingConfigNamespace = z.infer<typeof loggingConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    logging: LoggingConfigNamespace
+  }
+}
+
+export const loggingConfigNamespace: ConfigNamespaceDefinition<'logging'> = {
+  name: 'logging',
+  schema: loggingConfigSchema
+}
+
+/**
+ * ConfigurationService'teki `logPipeline` namespace'i: kayıtlar
+ * transport'lara ulaşmadan önce uygulanan redaksiyon, hız sınırı ve
+ * örnekleme.
+ */
+export const logPipelineConfigSchema = z.object({
+  redactKeys: z
+    .array(z.string(), {
+      description:
+        'Argument keys whose values are replaced with [REDACTED], case-insensitive'
+    })
+    .default([
+      'apikey',
+      'token',
+      'password',
+      'passphrase',
+      'secret',
+      'authorization',
+      'msisdn',
+      'qr',
+      'mobileIdentityKey'
+    ]),
+  redactPatterns: z
+    .array(z.string(), {
+      description:
+        'Regular expressions replaced in messages, string arguments and errors'
+    })
+    .default(['eyJ[\\w-]+\\.[\\w-]+\\.[\\w-]+', 'Bearer\\s+[\\w.~+/-]+=*']),
+  rateLimit: z
+    .number({
+      description:
+        'Records kept per logger per window; the rest are dropped and summarised'
+    })
+    .int()
+    .min(1)
+    .default(200),
+  rateLimitWindowMs: z
+    .number({ description: 'Rate limit window (ms)' })
+    .int()
+    .min(1000)
+    .default(10000),
+  rateLimitByLogger: z
+    .record(z.string(), z.number().int().min(1), {
+      description: 'rateLimit per logger name; a trailing * matches a prefix'
+    })
+    .default({}),
+  debugSampleRate: z
+    .number({
+      description:
+        'Share of SILLY, TRACE and DEBUG records kept in production builds'
+    })
+    .min(0)
+    .max(1)
+    .default(0.1)
+})
+
+export type LogPipelineConfigNamespace = z.infer<typeof logPipelineConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    logPipeline: LogPipelineConfigNamespace
+  }
+}
+
+export const logPipelineConfigNamespace: ConfigNamespaceDefinition<'logPipeline'> =
+  {
+    name: 'logPipeline',
+    schema: logPipelineConfigSchema
+  }
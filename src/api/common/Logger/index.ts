@@ -1,3 +1,6 @@
+export * from './configSchema'
+export * from './logContext'
+export * from './logRecord'
 export * from './logService'
 export * from './types'
 /**
@@ -46,3 +49,4 @@ export * from './types'
  *
  *               Table 2. Syslog Message Severities
  */
+export * from './transports'
@@ -0,0 +1,79 @@
+import { canCompress, gunzip, gzip } from './compression'
+import type { LogKeyring } from './logKeyring'
+import type { LogArchive, LogEntry } from './types'
+
+/**
+ * IndexedDB'deki arşiv; data, kayıtların JSON'unun sıkıştırılmış ve keyId
+ * varsa tümüyle şifrelenmiş hâlidir
+ */
+export interface StoredLogArchive extends Omit<LogArchive, 'id' | 'readable'> {
+  id?: number
+  keyId?: string
+  data: ArrayBuffer
+}
+
+/**
+ * Kayıtları tek arşivde toplar; şifreleme açıksa etkin anahtar kullanılır
+ */
+export async function packArchive(
+  entries: LogEntry[],
+  keyring: LogKeyring
+): Promise<StoredLogArchive> {
+  const json = JSON.stringify(entries)
+  const compression = canCompress() ? 'gzip' : 'none'
+  let data =
+    compression === 'gzip'
+      ? await gzip(json)
+      : await new Blob([json]).arrayBuffer()
+  let keyId: string | undefined
+  if (keyring.enabled) {
+    ;({ keyId, value: data } = await keyring.encryptBytes(data))
+  }
+  const times = entries.map((entry) => entry.timestamp.getTime())
+  return {
+    createdAt: new Date(),
+    from: new Date(Math.min(...times)),
+    to: new Date(Math.max(...times)),
+    count: entries.length,
+    size: data.byteLength,
+    compression,
+    data,
+    ...(keyId && { keyId })
+  }
+}
+
+/**
+ * @throws Error if the archive key is not available
+ */
+export async function unpackArchive(
+  archive: StoredLogArchive,
+  keyring: LogKeyring
+): Promise<LogEntry[]> {
+  const data = archive.keyId
+    ? await keyring.decryptBytes(archive.keyId, archive.data)
+    : archive.data
+  const json =
+    archive.compression === 'gzip'
+      ? await gunzip(data)
+      : await new Blob([data]).text()
+  return (JSON.parse(json) as LogEntry[]).map((entry) => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp)
+  }))
+}
+
+export function toArchiveInfo(
+  archive: StoredLogArchive,
+  keyring: LogKeyring
+): LogArchive {
+  return {
+    id: archive.id!,
+    createdAt: archive.createdAt,
+    from: archive.from,
+    to: archive.to,
+    count: archive.count,
+    size: archive.size,
+    compression: archive.compression,
+    readable: !archive.keyId || keyring.canDecrypt(archive.keyId)
+  }
+}
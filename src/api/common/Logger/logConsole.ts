@@ -0,0 +1,58 @@
+import { LoggerRegistry, loggerRegistry } from './loggerRegistry'
+import { LOG_LEVEL_IDS } from './logQuery'
+import { type LoggerInfo, type LoggerLevel, LogLevel } from './types'
+
+/**
+ * Tarayıcı konsolundan window.__bip.log ile kullanılır, örn.
+ * __bip.log.set('AuthManager', 'trace')
+ */
+export interface LogConsoleHelper {
+  list(): LoggerInfo[]
+  set(pattern: string, level: LoggerLevel): string[]
+  reset(pattern?: string): string[]
+  help(): void
+}
+
+declare global {
+  interface Window {
+    __bip?: { log?: LogConsoleHelper }
+  }
+}
+
+const USAGE = `__bip.log.list()                   loggers and their levels
+__bip.log.set('AuthManager', 'trace') change a level; * matches any characters
+__bip.log.reset('AuthManager')        restore the level, all levels without a name
+Levels: ${[...Object.keys(LOG_LEVEL_IDS), 'SILENT'].join(', ')}; changes survive reloads`
+
+export function installLogConsole(
+  registry: LoggerRegistry = loggerRegistry
+): void {
+  if (typeof window === 'undefined') return
+
+  const helper: LogConsoleHelper = {
+    list() {
+      const loggers = registry.list()
+      console.table(
+        loggers.map(({ name, minLevel, defaultMinLevel, override }) => ({
+          name,
+          level: levelName(minLevel),
+          default: levelName(defaultMinLevel),
+          override: override ?? ''
+        }))
+      )
+      return loggers
+    },
+    set: (pattern, level) => registry.setLevel(pattern, level),
+    reset: (pattern) => registry.resetLevel(pattern),
+    help: () => console.info(USAGE)
+  }
+  window.__bip = { ...window.__bip, log: helper }
+}
+
+function levelName(level: number): string {
+  if (level >= LogLevel.SILENT) return 'SILENT'
+  return (
+    Object.entries(LOG_LEVEL_IDS).find(([, id]) => id === level)?.[0] ??
+    String(level)
+  )
+}
@@ -0,0 +1,25 @@
+import type { LogContextValues } from './types'
+
+/**
+ * Tüm kayıtlara eklenecek oturum ve sekme bağlamını tutar. Tarayıcıda
+ * AsyncLocalStorage olmadığından correlation id burada tutulmaz; await
+ * sonrasında başka akışa karışmaması için logService.withCorrelation(id)
+ * ile alt logger'a sabitlenir.
+ */
+export class LogContext {
+  private values: Omit<LogContextValues, 'correlationId'> = {}
+
+  get current(): Omit<LogContextValues, 'correlationId'> {
+    return { ...this.values }
+  }
+
+  public set(values: Omit<LogContextValues, 'correlationId'>): void {
+    this.values = { ...this.values, ...values }
+  }
+}
+
+export function createCorrelationId(): string {
+  return crypto.randomUUID()
+}
+
+export const logContext = new LogContext()
@@ -0,0 +1,235 @@
+import * as ExcelJS from 'exceljs'
+import FileSaver from 'file-saver'
+
+import type { LogEntry, LogExportFormat } from './types'
+
+/**
+ * lib.dom henüz içermiyor; Chromium tabanlı tarayıcılarda bulunur
+ */
+type SaveFilePicker = (options?: {
+  suggestedName?: string
+}) => Promise<FileSystemFileHandle>
+
+interface ExportFormatInfo {
+  extension: string
+  type: string
+}
+
+export const LOG_EXPORT_FORMATS: Record<LogExportFormat, ExportFormatInfo> = {
+  csv: { extension: 'csv', type: 'text/csv;charset=utf-8' },
+  xlsx: {
+    extension: 'xlsx',
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  ndjson: { extension: 'ndjson', type: 'application/x-ndjson' },
+  json: { extension: 'json', type: 'application/json' }
+}
+
+/**
+ * Dışa aktarılan kayıt; data, saklanan JSON metninden çözülür
+ */
+interface ExportRecord {
+  id: number
+  timestamp: string
+  level: number
+  levelName: string
+  logger: string
+  message: string
+  data?: unknown
+  errors?: LogEntry['errors']
+  correlationId?: string
+  sessionId?: string
+  tabId?: string
+  source?: string
+}
+
+const COLUMNS: Array<{
+  header: string
+  key: keyof ExportRecord
+  width: number
+}> = [
+  { header: 'ID', key: 'id', width: 10 },
+  { header: 'Timestamp', key: 'timestamp', width: 25 },
+  { header: 'Level', key: 'levelName', width: 10 },
+  { header: 'Logger', key: 'logger', width: 20 },
+  { header: 'Message', key: 'message', width: 50 },
+  { header: 'Data', key: 'data', width: 30 },
+  { header: 'Errors', key: 'errors', width: 30 },
+  { header: 'Correlation ID', key: 'correlationId', width: 38 },
+  { header: 'Session ID', key: 'sessionId', width: 38 },
+  { header: 'Tab ID', key: 'tabId', width: 38 },
+  { header: 'Source', key: 'source', width: 30 }
+]
+
+const CRLF = '\r\n'
+
+/**
+ * Excel'in bir hücrede kabul ettiği en fazla karakter
+ */
+const XLSX_CELL_LIMIT = 32767
+
+export function exportFileName(
+  format: LogExportFormat,
+  date = new Date()
+): string {
+  const stamp = date.toISOString().replace(/[:.]/g, '-')
+  return `logs-${stamp}.${LOG_EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Parçalar okundukça üretilir; akış iptal edilirse sayfa okuması da durur
+ */
+export function exportStream(
+  format: LogExportFormat,
+  pages: AsyncIterable<LogEntry[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const chunks = exportChunks(format, pages)
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) controller.close()
+      else {
+        controller.enqueue(
+          typeof value === 'string' ? encoder.encode(value) : value
+        )
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+}
+
+/**
+ * File System Access API varsa dosya diske akıtılır; yoksa akış tarayıcının
+ * yönettiği bir Blob'a okunup indirilir. Kaydetme penceresinin iptali
+ * hata sayılmaz.
+ */
+export async function saveExport(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  type: string
+): Promise<void> {
+  const { showSaveFilePicker } = window as Window & {
+    showSaveFilePicker?: SaveFilePicker
+  }
+  if (!showSaveFilePicker) {
+    const blob = await new Response(stream).blob()
+    FileSaver.saveAs(new Blob([blob], { type }), fileName)
+    return
+  }
+  let handle: FileSystemFileHandle
+  try {
+    handle = await showSaveFilePicker({ suggestedName: fileName })
+  } catch (error) {
+    await stream.cancel()
+    if ((error as Error).name === 'AbortError') return
+    throw error
+  }
+  await stream.pipeTo(await handle.createWritable())
+}
+
+/**
+ * Sayfalar geldikçe dosya parçası üretir; metin biçimlerinde bir sayfa
+ * yazılan sayfanın kayıtları bellekte tutulmaz. XLSX tek zip olarak
+ * üretildiği için satırlar çalışma kitabında birikir ve dosya sonda yazılır.
+ */
+export async function* exportChunks(
+  format: LogExportFormat,
+  pages: AsyncIterable<LogEntry[]>
+): AsyncGenerator<string | Uint8Array> {
+  if (format === 'xlsx') {
+    yield await toXlsx(pages)
+    return
+  }
+
+  if (format === 'csv') {
+    yield COLUMNS.map((column) => csvField(column.header)).join(',') + CRLF
+  } else if (format === 'json') {
+    yield '['
+  }
+  let first = true
+  for await (const page of pages) {
+    if (!page.length) continue
+    const records = page.map(toExportRecord)
+    if (format === 'csv') {
+      yield records.map(toCsvRow).join('')
+    } else if (format === 'ndjson') {
+      yield records.map((record) => `${JSON.stringify(record)}\n`).join('')
+    } else {
+      yield (first ? '' : ',') +
+        records.map((record) => JSON.stringify(record)).join(',')
+    }
+    first = false
+  }
+  if (format === 'json') yield ']'
+}
+
+function toExportRecord(entry: LogEntry): ExportRecord {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp.toISOString(),
+    level: entry.level,
+    levelName: entry.levelName,
+    logger: entry.logger,
+    message: entry.message,
+    ...(entry.data && { data: parseData(entry.data) }),
+    ...(entry.errors?.length && { errors: entry.errors }),
+    ...(entry.correlationId && { correlationId: entry.correlationId }),
+    ...(entry.sessionId && { sessionId: entry.sessionId }),
+    ...(entry.tabId && { tabId: entry.tabId }),
+    ...(entry.source && { source: entry.source })
+  }
+}
+
+/**
+ * Eski kayıtlarda data JSON olmayabilir; metin olarak bırakılır
+ */
+function parseData(data: string): unknown {
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * RFC 4180: virgül, tırnak veya satır sonu içeren alanlar tırnak içine
+ * alınır, içteki tırnaklar ikilenir
+ */
+function csvField(value: unknown): string {
+  const text = cellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsvRow(record: ExportRecord): string {
+  return COLUMNS.map(({ key }) => csvField(record[key])).join(',') + CRLF
+}
+
+async function toXlsx(pages: AsyncIterable<LogEntry[]>): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet('Logs')
+  worksheet.columns = COLUMNS
+  for await (const page of pages) {
+    for (const entry of page) {
+      const record = toExportRecord(entry)
+      worksheet.addRow({
+        ...Object.fromEntries(
+          COLUMNS.map(({ key }) => [
+            key,
+            cellText(record[key]).slice(0, XLSX_CELL_LIMIT)
+          ])
+        ),
+        id: record.id,
+        timestamp: entry.timestamp
+      })
+    }
+  }
+  return new Uint8Array(await workbook.xlsx.writeBuffer())
+}
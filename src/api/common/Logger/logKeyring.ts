@@ -0,0 +1,292 @@
+import type { Table } from 'dexie'
+
+import {
+  blindIndex,
+  decryptBytes,
+  decryptData,
+  deriveWrappingKey,
+  encryptBytes,
+  encryptData,
+  generateIndexKey,
+  generateKey,
+  generateWrappingKey,
+  unwrapDataKey,
+  unwrapIndexKey,
+  wrapDataKey
+} from '@bipweb/shared'
+
+import type { LogEncryptionMode, LogEncryptionStatus } from './types'
+
+type KeyProtection = Exclude<LogEncryptionMode, 'none'>
+
+/**
+ * IndexedDB'deki sarılı veri anahtarı kaydı
+ */
+export interface StoredLogKey {
+  id: string
+  createdAt: number
+  protection: KeyProtection
+  wrappedKey: ArrayBuffer
+  /**
+   * Arama token'larını özetleyen HMAC anahtarı; bu alandan önce oluşturulan
+   * anahtarlar yeni anahtarla değiştirilir
+   */
+  wrappedIndexKey?: ArrayBuffer
+  /**
+   * device: tarayıcı dışına çıkarılamayan AES-KW anahtarı
+   */
+  wrappingKey?: CryptoKey
+  /**
+   * passphrase: PBKDF2 tuzu ve tur sayısı
+   */
+  salt?: Uint8Array
+  iterations?: number
+}
+
+export const PASSPHRASE_ITERATIONS = 310000
+
+interface PassphraseKey {
+  key: CryptoKey
+  salt: Uint8Array
+  iterations: number
+}
+
+/**
+ * Log mesajlarını şifreleyen AES-GCM veri anahtarlarını yönetir. Anahtarlar
+ * IndexedDB'de yalnızca sarılı hâlde durur; açılmış hâlleri bellekte tutulur.
+ * Rotasyon yarıda kalırsa eski anahtarlar da açılır ki kayıtlar okunabilsin.
+ */
+export class LogKeyring {
+  private mode: LogEncryptionMode = 'none'
+  private activeKeyId: string | null = null
+  private dataKeys = new Map<string, CryptoKey>()
+  private indexKeys = new Map<string, CryptoKey>()
+  private passphraseKey: PassphraseKey | null = null
+
+  constructor(private readonly table: Table<StoredLogKey, string>) {}
+
+  get status(): LogEncryptionStatus {
+    return {
+      mode: this.mode,
+      locked: this.locked,
+      activeKeyId: this.activeKeyId
+    }
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'none'
+  }
+
+  get locked(): boolean {
+    return this.enabled && !this.activeKeyId
+  }
+
+  /**
+   * Kayıtlı anahtarları açar; en yeni anahtarın koruması moda uymuyorsa
+   * yeni anahtar oluşturur. Başka anahtarla şifrelenmiş kayıt kalmış
+   * olabiliyorsa true döner.
+   */
+  async load(mode: LogEncryptionMode, passphrase?: string): Promise<boolean> {
+    this.mode = mode
+    this.activeKeyId = null
+
+    const records = await this.table.orderBy('createdAt').toArray()
+    for (const record of records) {
+      if (this.dataKeys.has(record.id)) continue
+      if (record.protection === 'device') {
+        await this.unwrapRecord(record, record.wrappingKey!)
+      } else if (passphrase) {
+        await this.unlockRecord(record, passphrase)
+      }
+    }
+
+    if (mode === 'none') return false
+    const latest = records.at(-1)
+    if (latest?.protection === mode && latest.wrappedIndexKey) {
+      if (!this.dataKeys.has(latest.id)) return false
+      this.activeKeyId = latest.id
+      return records.length > 1
+    }
+    if (mode === 'passphrase' && !passphrase) return false
+
+    await this.createKey(passphrase)
+    return records.length > 0
+  }
+
+  /**
+   * Aktif anahtarı yenisiyle değiştirir; eski anahtarlar retire edilene
+   * kadar okuma için saklanır.
+   */
+  async rotate(passphrase?: string): Promise<void> {
+    if (!this.enabled) {
+      throw new Error('Log encryption is disabled')
+    }
+    if (this.locked) {
+      throw new Error('Log encryption is locked')
+    }
+    await this.createKey(passphrase)
+  }
+
+  /**
+   * Aktif olmayan, açılmış anahtarları siler
+   */
+  async retire(): Promise<string[]> {
+    const retired = [...this.dataKeys.keys()].filter(
+      (id) => id !== this.activeKeyId
+    )
+    await this.table.bulkDelete(retired)
+    retired.forEach((id) => {
+      this.dataKeys.delete(id)
+      this.indexKeys.delete(id)
+    })
+    return retired
+  }
+
+  isActive(keyId: string | undefined): boolean {
+    return !!keyId && keyId === this.activeKeyId
+  }
+
+  canDecrypt(keyId: string): boolean {
+    return this.dataKeys.has(keyId)
+  }
+
+  /**
+   * Index anahtarı açık olan anahtar id'leri; şifreli kayıtlarda arama
+   * token'ı her biri için ayrı hesaplanır
+   */
+  get indexedKeyIds(): string[] {
+    return [...this.indexKeys.keys()]
+  }
+
+  /**
+   * Token'ın keyId anahtarıyla şifrelenmiş kayıtlardaki karşılığı
+   */
+  async indexToken(keyId: string, token: string): Promise<string> {
+    const key = this.indexKeys.get(keyId)
+    if (!key) {
+      throw new Error(`Log index key ${keyId} is not available`)
+    }
+    return blindIndex(token, key)
+  }
+
+  async encrypt(
+    value: string,
+    keyId: string | null = this.activeKeyId
+  ): Promise<{ keyId: string; value: string }> {
+    if (!keyId || !this.dataKeys.has(keyId)) {
+      throw new Error('No active log encryption key')
+    }
+    return { keyId, value: await encryptData(value, this.dataKeys.get(keyId)!) }
+  }
+
+  async decrypt(keyId: string, value: string): Promise<string> {
+    return decryptData(value, this.getDataKey(keyId))
+  }
+
+  async encryptBytes(
+    value: ArrayBuffer
+  ): Promise<{ keyId: string; value: ArrayBuffer }> {
+    const keyId = this.activeKeyId
+    if (!keyId) {
+      throw new Error('No active log encryption key')
+    }
+    return { keyId, value: await encryptBytes(value, this.getDataKey(keyId)) }
+  }
+
+  async decryptBytes(keyId: string, value: ArrayBuffer): Promise<ArrayBuffer> {
+    return decryptBytes(value, this.getDataKey(keyId))
+  }
+
+  private getDataKey(keyId: string): CryptoKey {
+    const key = this.dataKeys.get(keyId)
+    if (!key) {
+      throw new Error(`Log encryption key ${keyId} is not available`)
+    }
+    return key
+  }
+
+  private async createKey(passphrase?: string): Promise<void> {
+    const key = await generateKey()
+    const indexKey = await generateIndexKey()
+    const record: Omit<StoredLogKey, 'wrappedKey'> = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      protection: this.mode as KeyProtection
+    }
+
+    let wrappingKey: CryptoKey
+    if (record.protection === 'device') {
+      record.wrappingKey = await generateWrappingKey()
+      wrappingKey = record.wrappingKey
+    } else {
+      if (passphrase) {
+        this.passphraseKey = await this.derive(
+          passphrase,
+          crypto.getRandomValues(new Uint8Array(16)),
+          PASSPHRASE_ITERATIONS
+        )
+      }
+      if (!this.passphraseKey) {
+        throw new Error('Log encryption passphrase is required')
+      }
+      record.salt = this.passphraseKey.salt
+      record.iterations = this.passphraseKey.iterations
+      wrappingKey = this.passphraseKey.key
+    }
+
+    const stored: StoredLogKey = {
+      ...record,
+      wrappedKey: await wrapDataKey(key, wrappingKey),
+      wrappedIndexKey: await wrapDataKey(indexKey, wrappingKey)
+    }
+    await this.table.put(stored)
+    // Bellekte dışa aktarılamayan kopyalar tutulur
+    await this.unwrapRecord(stored, wrappingKey)
+    this.activeKeyId = record.id
+  }
+
+  private async unlockRecord(
+    record: StoredLogKey,
+    passphrase: string
+  ): Promise<void> {
+    const passphraseKey = await this.derive(
+      passphrase,
+      record.salt!,
+      record.iterations!
+    )
+    try {
+      await this.unwrapRecord(record, passphraseKey.key)
+    } catch {
+      throw new Error('Invalid log encryption passphrase')
+    }
+    this.passphraseKey = passphraseKey
+  }
+
+  private async unwrapRecord(
+    record: StoredLogKey,
+    wrappingKey: CryptoKey
+  ): Promise<void> {
+    this.dataKeys.set(
+      record.id,
+      await unwrapDataKey(record.wrappedKey, wrappingKey)
+    )
+    if (record.wrappedIndexKey) {
+      this.indexKeys.set(
+        record.id,
+        await unwrapIndexKey(record.wrappedIndexKey, wrappingKey)
+      )
+    }
+  }
+
+  private async derive(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<PassphraseKey> {
+    return {
+      key: await deriveWrappingKey(passphrase, salt, iterations),
+      salt,
+      iterations
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import type { LogEntry } from './types'
+
+export const LOG_MIRROR_CHANNEL = 'bip-log-mirror'
+
+/**
+ * Kaydedilen girdileri aynı origin'deki diğer sekmelere iletir; böylece
+ * her sekmedeki subscribeToLogs tüm sekmelerin kayıtlarını görür. Girdiler
+ * aynı LogDB'ye yazıldığı için id'leri tüm sekmelerde geçerlidir; bu yüzden
+ * kayıtlar transport'larda değil, LogDB'ye yazıldıktan sonra yayınlanır.
+ * BroadcastChannel desteklenmiyorsa yalnızca yerel kayıtlar görülür.
+ */
+export class LogMirror {
+  private readonly channel: BroadcastChannel | null
+
+  constructor(
+    onEntry: (entry: LogEntry) => void,
+    channelName: string = LOG_MIRROR_CHANNEL
+  ) {
+    this.channel =
+      typeof BroadcastChannel !== 'undefined'
+        ? new BroadcastChannel(channelName)
+        : null
+    this.channel?.addEventListener('message', (event: MessageEvent) =>
+      onEntry(event.data as LogEntry)
+    )
+  }
+
+  /**
+   * Girdi structured clone ile kopyalanır; timestamp Date olarak kalır
+   */
+  public post(entry: LogEntry): void {
+    try {
+      this.channel?.postMessage(entry)
+    } catch (error) {
+      // this.error kullanılmaz: yeni kayıt yeniden yayınlanmaya çalışılır
+      console.error('Failed to mirror log entry', error)
+    }
+  }
+}
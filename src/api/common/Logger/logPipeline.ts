@@ -0,0 +1,199 @@
+import type { LogPipelineConfigNamespace } from './configSchema'
+import { logContext } from './logContext'
+import { LOG_LEVEL_IDS, matchesLogger } from './logQuery'
+import { serializeError, toError } from './logRecord'
+import type { LogRecord, SerializedLogError } from './types'
+
+const REDACTED = '[REDACTED]'
+
+/**
+ * Redaksiyonun inildiği en fazla iç içe nesne derinliği; daha derindeki
+ * nesneler denetlenemediği için REDACTED yazılır
+ */
+const MAX_REDACT_DEPTH = 8
+
+interface RateWindow {
+  startedAt: number
+  count: number
+  suppressed: number
+  timer?: ReturnType<typeof setTimeout>
+}
+
+export interface LogPipelineOptions {
+  /**
+   * Örnekleme yalnızca production build'lerinde uygulanır
+   */
+  production: boolean
+  /**
+   * Zaman penceresi kapanırken üretilen "suppressed" özet kayıtlarını yazar
+   */
+  emit: (record: LogRecord) => void
+}
+
+/**
+ * Kayıtlar transport'lara gitmeden önce sırayla örneklenir, logger başına
+ * hız sınırından geçirilir ve hassas değerlerden arındırılır. Sınırı aşan
+ * kayıtlar atılır; pencere kapanınca atılanların sayısı aynı logger adıyla
+ * tek bir WARN kaydı olarak yazılır.
+ */
+export class LogPipeline {
+  private redactKeys = new Set<string>()
+  private redactPatterns: RegExp[] = []
+  private windows = new Map<string, RateWindow>()
+
+  constructor(
+    private config: LogPipelineConfigNamespace,
+    private readonly options: LogPipelineOptions
+  ) {
+    this.configure(config)
+  }
+
+  /**
+   * Geçersiz düzenli ifadeler atlanır ve konsola yazılır; pipeline kendi
+   * logger'ı üzerinden loglamaz
+   */
+  public configure(config: LogPipelineConfigNamespace): void {
+    this.config = config
+    this.redactKeys = new Set(config.redactKeys.map((key) => key.toLowerCase()))
+    this.redactPatterns = config.redactPatterns.flatMap((pattern) => {
+      try {
+        return [new RegExp(pattern, 'g')]
+      } catch (error) {
+        console.warn(`Invalid log redaction pattern ${pattern}`, error)
+        return []
+      }
+    })
+  }
+
+  /**
+   * @returns Redacted record, or null if it was sampled out or rate limited
+   */
+  public process(record: LogRecord): LogRecord | null {
+    if (!this.sample(record) || !this.admit(record)) return null
+    return this.redact(record)
+  }
+
+  /**
+   * Açık pencerelerin özetlerini hemen yazar
+   */
+  public flush(): void {
+    for (const [logger, bucket] of this.windows) {
+      this.closeWindow(logger, bucket)
+    }
+  }
+
+  private sample(record: LogRecord): boolean {
+    return (
+      !this.options.production ||
+      record.levelId > LOG_LEVEL_IDS.DEBUG ||
+      Math.random() < this.config.debugSampleRate
+    )
+  }
+
+  /**
+   * Sabit pencere: pencere ilk kayıtla açılır, rateLimitWindowMs sonra kapanır
+   */
+  private admit({ logger }: LogRecord): boolean {
+    const now = Date.now()
+    const current = this.windows.get(logger)
+    if (current && now - current.startedAt >= this.config.rateLimitWindowMs) {
+      this.closeWindow(logger, current)
+    }
+    const bucket = this.windows.get(logger) ?? this.openWindow(logger, now)
+    if (bucket.count < this.limitFor(logger)) {
+      bucket.count++
+      return true
+    }
+    bucket.suppressed++
+    bucket.timer ??= setTimeout(
+      () => this.closeWindow(logger, bucket),
+      bucket.startedAt + this.config.rateLimitWindowMs - now
+    )
+    return false
+  }
+
+  private openWindow(logger: string, now: number): RateWindow {
+    const bucket = { startedAt: now, count: 0, suppressed: 0 }
+    this.windows.set(logger, bucket)
+    return bucket
+  }
+
+  private limitFor(logger: string): number {
+    const override = Object.entries(this.config.rateLimitByLogger).find(
+      ([pattern]) => matchesLogger(logger, [pattern])
+    )
+    return override?.[1] ?? this.config.rateLimit
+  }
+
+  private closeWindow(logger: string, bucket: RateWindow): void {
+    clearTimeout(bucket.timer)
+    if (this.windows.get(logger) === bucket) this.windows.delete(logger)
+    if (!bucket.suppressed) return
+    this.options.emit({
+      ...logContext.current,
+      timestamp: new Date(),
+      levelId: LOG_LEVEL_IDS.WARN,
+      levelName: 'WARN',
+      logger,
+      message: `Suppressed ${bucket.suppressed} messages`,
+      args: [
+        {
+          suppressed: bucket.suppressed,
+          limit: this.limitFor(logger),
+          windowMs: this.config.rateLimitWindowMs
+        }
+      ],
+      errors: []
+    })
+  }
+
+  private redact(record: LogRecord): LogRecord {
+    return {
+      ...record,
+      message: this.redactText(record.message),
+      args: record.args.map((arg) => this.redactValue(arg, 0)),
+      errors: record.errors.map((error) => this.redactError(error))
+    }
+  }
+
+  private redactError(error: SerializedLogError): SerializedLogError {
+    return {
+      ...error,
+      message: this.redactText(error.message),
+      ...(error.stack && { stack: this.redactText(error.stack) })
+    }
+  }
+
+  private redactText(text: string): string {
+    return this.redactPatterns.reduce(
+      (result, pattern) => result.replace(pattern, REDACTED),
+      text
+    )
+  }
+
+  /**
+   * Yalnızca dizi ve düz nesnelere inilir; Error'lar (tslog'un sardıkları
+   * dahil) serializeError ile düz nesneye çevrilip mesaj ve stack'leri
+   * redakte edilir, nativeError sonraki JSON dönüşümüne taşınmaz. Diğer
+   * sınıf örnekleri olduğu gibi bırakılır
+   */
+  private redactValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') return this.redactText(value)
+    if (typeof value !== 'object' || !value) return value
+    const error = toError(value)
+    if (error) return this.redactError(serializeError(error))
+    if (depth >= MAX_REDACT_DEPTH) return REDACTED
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, depth + 1))
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype) return value
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.redactKeys.has(key.toLowerCase())
+          ? REDACTED
+          : this.redactValue(item, depth + 1)
+      ])
+    )
+  }
+}
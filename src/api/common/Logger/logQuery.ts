@@ -0,0 +1,189 @@
+import type {
+  LogFilter,
+  LogFilterField,
+  LogLevelName,
+  SerializedLogError
+} from './types'
+
+export const LOG_LEVEL_IDS: Record<LogLevelName, number> = {
+  SILLY: 0,
+  TRACE: 1,
+  DEBUG: 2,
+  INFO: 3,
+  WARN: 4,
+  ERROR: 5,
+  FATAL: 6,
+  CUSTOM: 8,
+  INIT: 12
+}
+
+/**
+ * Bir kayıt için indekslenen en fazla token sayısı
+ */
+const MAX_TOKENS = 32
+
+const MAX_TOKEN_LENGTH = 40
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu
+
+/**
+ * Şifreli kayıtlarda önek araması için indekslenen önek uzunluğu; en kısa
+ * token kadardır ki her arama kelimesinin öneki bulunsun
+ */
+const TOKEN_PREFIX_LENGTH = 2
+
+/**
+ * Sorgu sırasında bellekte karşılaştırılan, şifrelenmeyen alanlar
+ */
+export interface IndexedLogFields {
+  id: number
+  timestamp: Date
+  level: number
+  logger: string
+  correlationId?: string
+  sessionId?: string
+  tabId?: string
+  source?: string
+}
+
+export interface LogCursor {
+  timestamp: number
+  id: number
+}
+
+type EncryptedLogField = 'message' | 'data'
+
+export type PlainLogField = Exclude<LogFilterField, EncryptedLogField>
+
+const ENCRYPTED_FIELDS: LogFilterField[] = ['message', 'data']
+
+export function resolveLevel(level: LogLevelName | number): number {
+  if (typeof level === 'number') return level
+  const id = LOG_LEVEL_IDS[level.toUpperCase() as LogLevelName]
+  if (id === undefined) {
+    throw new Error(`Unknown log level ${level}`)
+  }
+  return id
+}
+
+export function resolveLevels(level: LogFilter['level']): number[] | null {
+  if (level === undefined) return null
+  return (Array.isArray(level) ? level : [level]).map(resolveLevel)
+}
+
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Küçük harfe çevrilmiş, tekrarsız kelimeler; tek karakterlik kelimeler
+ * indekslenmez
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>()
+  for (const [word] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (word.length < 2) continue
+    tokens.add(word.slice(0, MAX_TOKEN_LENGTH))
+    if (tokens.size >= MAX_TOKENS) break
+  }
+  return [...tokens]
+}
+
+/**
+ * Özetlenmiş token'larda önek araması yapılamadığından şifreli kayıtlara
+ * kelimenin ilk harfleri de ayrı bir token olarak eklenir
+ */
+export function prefixToken(token: string): string {
+  return `${token.slice(0, TOKEN_PREFIX_LENGTH)}*`
+}
+
+export function entryTokens(
+  message: string,
+  errors?: SerializedLogError[]
+): string[] {
+  return tokenize(
+    [message, ...(errors ?? []).map((error) => error.message)].join(' ')
+  )
+}
+
+export function matchesLogger(
+  logger: string,
+  patterns: string[] | undefined
+): boolean {
+  return (
+    !patterns ||
+    patterns.some((pattern) =>
+      pattern.endsWith('*')
+        ? logger.startsWith(pattern.slice(0, -1))
+        : logger === pattern
+    )
+  )
+}
+
+export function matchesField(
+  value: unknown,
+  expected: string | RegExp
+): boolean {
+  if (typeof expected === 'string') return value === expected
+  if (typeof value !== 'string') return false
+  expected.lastIndex = 0
+  return expected.test(value)
+}
+
+/**
+ * Şifre çözülmeden uygulanabilen alan filtreleri
+ */
+export function plainFields(
+  fields: LogFilter['fields']
+): Array<[PlainLogField, string | RegExp]> {
+  return Object.entries(fields ?? {}).filter(
+    ([field]) => !ENCRYPTED_FIELDS.includes(field as LogFilterField)
+  ) as Array<[PlainLogField, string | RegExp]>
+}
+
+export function encryptedFields(
+  fields: LogFilter['fields']
+): Array<[EncryptedLogField, string | RegExp]> {
+  return Object.entries(fields ?? {}).filter(([field]) =>
+    ENCRYPTED_FIELDS.includes(field as LogFilterField)
+  ) as Array<[EncryptedLogField, string | RegExp]>
+}
+
+export function toCursor(entry: IndexedLogFields): LogCursor {
+  return { timestamp: entry.timestamp.getTime(), id: entry.id }
+}
+
+export function encodeCursor(entry: IndexedLogFields): string {
+  return `${entry.timestamp.getTime()}:${entry.id}`
+}
+
+export function decodeCursor(cursor: string | undefined): LogCursor | null {
+  if (!cursor) return null
+  const [timestamp, id] = cursor.split(':').map(Number)
+  if (!Number.isFinite(timestamp) || !Number.isInteger(id)) {
+    throw new Error(`Invalid log cursor ${cursor}`)
+  }
+  return { timestamp, id }
+}
+
+/**
+ * Zaman damgası eşit kayıtlar IndexedDB'deki gibi id ile sıralanır
+ */
+export function compareEntries(
+  a: IndexedLogFields,
+  b: IndexedLogFields
+): number {
+  return a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id
+}
+
+export function isAfterCursor(
+  entry: IndexedLogFields,
+  cursor: LogCursor | null,
+  descending: boolean
+): boolean {
+  if (!cursor) return true
+  const difference =
+    entry.timestamp.getTime() - cursor.timestamp || entry.id - cursor.id
+  return descending ? difference < 0 : difference > 0
+}
@@ -0,0 +1,110 @@
+import type { ILogObjMeta } from 'tslog'
+
+import { logContext } from './logContext'
+import type { LogRecord, SerializedLogError } from './types'
+
+/**
+ * Hataların aranacağı en fazla iç içe nesne derinliği
+ */
+const MAX_ERROR_DEPTH = 3
+
+/**
+ * tslog argümanları bu anahtarda dizi olarak taşır (argumentsArrayName);
+ * aksi hâlde tek nesne argümanı logObj'e yayılır ve argümanlar kaybolur
+ */
+export const LOG_ARGUMENTS_KEY = 'arguments'
+
+/**
+ * Argümanların ilki mesajdır; ilk argüman Error dışı bir nesneyse mesaj boş
+ * kalır ve nesne argümanlarda tutulur. correlationId, withCorrelation ile
+ * logObj'e sabitlenen değerdir.
+ */
+export function toLogRecord(
+  logObj: ILogObjMeta & Record<string, unknown>
+): LogRecord {
+  const logged: unknown = logObj[LOG_ARGUMENTS_KEY]
+  const args: unknown[] = Array.isArray(logged) ? logged : []
+  const [first, ...rest] = args
+  const { _meta } = logObj
+  const error = toError(first)
+  const isMessage = error || typeof first !== 'object' || first === null
+
+  return {
+    ...logContext.current,
+    ...(typeof logObj.correlationId === 'string' && {
+      correlationId: logObj.correlationId
+    }),
+    timestamp: new Date(_meta.date),
+    levelId: _meta.logLevelId,
+    levelName: _meta.logLevelName,
+    logger: _meta.name ?? '',
+    message: error
+      ? error.message
+      : isMessage && first !== undefined
+        ? `${first}`
+        : '',
+    args: isMessage ? rest : args,
+    errors: args.flatMap((arg) => findErrors(arg, 0)),
+    source: _meta.path?.filePathWithLine ?? _meta.path?.fileNameWithLine
+  }
+}
+
+export function serializeError(error: Error): SerializedLogError {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.stack && { stack: error.stack })
+  }
+}
+
+/**
+ * Argümanı JSON'a uygun hâle getirir; Error'lar (tslog'un sardıkları dahil)
+ * JSON.stringify'da boş nesneye dönüşmesin diye serializeError ile yazılır.
+ */
+export function toPlainValue(value: unknown, depth = 0): unknown {
+  const error = toError(value)
+  if (error) return serializeError(error)
+  if (depth >= MAX_ERROR_DEPTH || typeof value !== 'object' || !value) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toPlainValue(item, depth + 1))
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      toPlainValue(item, depth + 1)
+    ])
+  )
+}
+
+/**
+ * Döngüsel veya klonlanamayan argümanlar metne çevrilir ki tek bir
+ * argüman tüm kaydı ya da batch'i bozmasın.
+ */
+export function toJsonValue(value: unknown): unknown {
+  try {
+    return JSON.parse(JSON.stringify(toPlainValue(value)) ?? 'null')
+  } catch {
+    return String(value)
+  }
+}
+
+function findErrors(value: unknown, depth: number): SerializedLogError[] {
+  const error = toError(value)
+  if (error) return [serializeError(error)]
+  if (depth >= MAX_ERROR_DEPTH || typeof value !== 'object' || !value) {
+    return []
+  }
+  return Object.values(value).flatMap((item) => findErrors(item, depth + 1))
+}
+
+/**
+ * tslog, argüman olarak verilen Error'ları { nativeError, ... } nesnesine çevirir
+ */
+export function toError(value: unknown): Error | null {
+  if (value instanceof Error) return value
+  const nativeError = (value as { nativeError?: unknown } | null)?.nativeError
+  return nativeError instanceof Error ? nativeError : null
+}
@@ -1,21 +1,166 @@
-import Dexie from 'dexie'
-import * as ExcelJS from 'exceljs'
-import FileSaver from 'file-saver'
+import Dexie, { type Collection, type Table } from 'dexie'
 import type { ILogObjMeta, IMeta, ISettingsParam } from 'tslog'
 import { Logger as TSLogger } from 'tslog'
 import { singleton } from 'tsyringe'
 
 import { dependsOn } from '@bipweb/core'
-import { encryptData, generateKey } from '@bipweb/shared'
 
+import { canCompress, gzip } from './compression'
+import {
+  type LogPipelineConfigNamespace,
+  logPipelineConfigSchema,
+  type StorageConfigNamespace,
+  storageConfigSchema
+} from './configSchema'
+import {
+  packArchive,
+  type StoredLogArchive,
+  toArchiveInfo,
+  unpackArchive
+} from './logArchive'
+import { installLogConsole } from './logConsole'
+import {
+  exportFileName,
+  exportStream,
+  LOG_EXPORT_FORMATS,
+  saveExport
+} from './logExport'
+import { loggerRegistry } from './loggerRegistry'
+import { LogKeyring, type StoredLogKey } from './logKeyring'
+import { LogMirror } from './logMirror'
+import { LogPipeline } from './logPipeline'
+import {
+  compareEntries,
+  decodeCursor,
+  encodeCursor,
+  encryptedFields,
+  entryTokens,
+  type IndexedLogFields,
+  isAfterCursor,
+  LOG_LEVEL_IDS,
+  type LogCursor,
+  matchesField,
+  matchesLogger,
+  plainFields,
+  prefixToken,
+  resolveLevel,
+  resolveLevels,
+  toArray,
+  toCursor,
+  tokenize
+} from './logQuery'
+import { LOG_ARGUMENTS_KEY, toJsonValue, toLogRecord } from './logRecord'
+import { ConsoleTransport } from './transports'
 import type {
   CreateLogEntry,
   ILogService,
   LogAnalytics,
+  LogArchive,
+  LogDailyCount,
+  LogDownloadOptions,
+  LogEncryptionOptions,
+  LogEncryptionStatus,
   LogEntry,
-  LogFilter
+  LogExportOptions,
+  LogFilter,
+  LoggerInfo,
+  LoggerLevel,
+  LogLevelName,
+  LogMaintenanceReport,
+  LogPage,
+  LogRecord,
+  LogStorageUsage,
+  LogTransport,
+  LogTransportOptions
 } from './types'
 
+type LogEntryDraft = CreateLogEntry & { id?: number }
+
+/**
+ * IndexedDB'deki kayıt; keyId varsa message, data ve errors şifrelidir
+ */
+type StoredLogEntry = Omit<LogEntryDraft, 'errors'> & {
+  keyId?: string
+  /**
+   * SerializedLogError[] JSON'u
+   */
+  errors?: string
+  /**
+   * Mesaj kelimeleri; şifreli kayıtlarda anahtarın index anahtarıyla özetlenir
+   */
+  tokens?: string[]
+}
+
+type SavedLogEntry = StoredLogEntry & { id: number }
+
+/**
+ * Sorguyu daraltmak için kullanılan IndexedDB indeksi
+ */
+type QueryIndex = 'level' | 'logger' | 'correlationId' | 'timestamp' | 'keyword'
+
+interface QueryPlan {
+  index: QueryIndex
+  descending: boolean
+  levels: number[] | null
+  loggers?: string[]
+  keywordTokens: string[]
+  /**
+   * Şifrelenmemiş alanlarla eleme; index'in karşıladığı koşullar içermez
+   */
+  matchesStored: ((entry: IndexedLogFields) => boolean) | null
+  /**
+   * Şifresi çözülmüş kayıtla eleme
+   */
+  matchesOpened: ((entry: LogEntry) => boolean) | null
+}
+
+/**
+ * Parola beklenirken bellekte tutulan en fazla kayıt sayısı
+ */
+const PENDING_ENTRY_LIMIT = 500
+
+const REENCRYPT_BATCH_SIZE = 200
+
+/**
+ * Şifre çözülerek elenen sorgularda bir seferde okunan kayıt sayısı
+ */
+const QUERY_CHUNK_SIZE = 200
+
+/**
+ * Kelime aramasında bu sayıya kadar aday doğrudan okunur; daha fazlasında
+ * zaman index'i sayfa dolana kadar dolaşılır
+ */
+const KEYWORD_BULK_LIMIT = 1000
+
+/**
+ * Rotasyonda tek arşive yazılan en fazla kayıt sayısı
+ */
+const ARCHIVE_ENTRY_LIMIT = 1000
+
+/**
+ * Ortalama kayıt boyutu hesaplanırken okunan en yeni kayıt sayısı
+ */
+const SIZE_SAMPLE_SIZE = 50
+
+/**
+ * Örnek alınamadığında varsayılan kayıt boyutu (bayt)
+ */
+const DEFAULT_ENTRY_SIZE = 512
+
+/**
+ * Dışa aktarımda tek seferde okunan kayıt sayısı
+ */
+const EXPORT_PAGE_SIZE = 500
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const UNREADABLE_MESSAGE = '[encrypted]'
+
+interface RegisteredTransport {
+  transport: LogTransport
+  options: LogTransportOptions
+}
+
 /**
  * LogService implements ILogService with filtering, real-time monitoring,
  * encryption, and analytics reporting.
@@ -28,17 +173,26 @@ export class LogService<LogObj>
   implements ILogService<LogObj>
 {
   public store: Array<(transportLogger: LogObj & ILogObjMeta) => void> = []
-  private db: Dexie
-  private readonly externalServiceUrl?: string
-  private encryptionKey?: CryptoKey
+  private db!: Dexie
+  private transports = new Map<string, RegisteredTransport>()
+  private keyring!: LogKeyring
+  private keyTask: Promise<void> = Promise.resolve()
+  private pendingEntries: CreateLogEntry[] = []
   private subscribers: Array<(log: LogEntry) => void> = []
+  private storage: StorageConfigNamespace = storageConfigSchema.parse({})
+  private pipeline!: LogPipeline
+  private mirror!: LogMirror
+  private maintenanceLeader = false
+  private readonly fields?: LogObj
 
   constructor(settings?: ISettingsParam<LogObj>, logObj?: LogObj) {
     super(
       {
-        hideLogPositionForProduction: true,
+        // Kayıtların source alanı geliştirmede dosya:satır bilgisini taşır
+        hideLogPositionForProduction: import.meta.env.PROD,
         prettyLogTimeZone: 'UTC',
-        type: 'pretty',
+        // Konsol çıktısı ConsoleTransport üzerinden yazılır
+        type: 'hidden',
         // prefix: [''],
         // parentNames: [''],
         // prettyErrorParentNamesSeparator: '',
@@ -56,46 +210,254 @@ export class LogService<LogObj>
           }
         },
         ...settings,
-        name: settings?.name || 'unknown'
+        name: settings?.name || 'unknown',
+        argumentsArrayName: LOG_ARGUMENTS_KEY
       },
       logObj
     )
+    this.fields = logObj
+    // tslog alt logger'ları da bu constructor ile oluşturur; depolama ve
+    // transport'lar yalnızca kökte kurulur, alt logger kayıtları kökten
+    // devralınan transport üzerinden akar
+    if (settings?.parentNames) return
+
     // Initialize Dexie database
     this.db = new Dexie('LogDB')
     this.db.version(1).stores({
       logs: '++id, timestamp, level'
     })
-    this.externalServiceUrl = ''
+    // v1 kayıtları her sayfa yüklemesinde yeniden üretilen bir anahtarla
+    // şifrelendiği için okunamaz; yükseltmede silinir
+    this.db
+      .version(2)
+      .stores({
+        logs: '++id, timestamp, level',
+        keys: '&id, createdAt'
+      })
+      .upgrade((tx) => tx.table('logs').clear())
+    // v3: seviye sayı olarak saklanır; şifresiz kayıtların token'ları burada,
+    // şifreli olanlarınki anahtar yenilenirken üretilir
+    this.db
+      .version(3)
+      .stores({
+        logs: '++id, timestamp, [level+timestamp], [logger+timestamp], [correlationId+timestamp], *tokens',
+        keys: '&id, createdAt'
+      })
+      .upgrade((tx) =>
+        tx
+          .table<StoredLogEntry>('logs')
+          .toCollection()
+          .modify((entry) => {
+            entry.level = Number(entry.level)
+            if (!entry.keyId) {
+              entry.tokens = entryTokens(
+                entry.message,
+                entry.errors ? JSON.parse(entry.errors) : undefined
+              )
+            }
+          })
+      )
+    this.db.version(4).stores({
+      logs: '++id, timestamp, [level+timestamp], [logger+timestamp], [correlationId+timestamp], *tokens',
+      keys: '&id, createdAt',
+      archives: '++id, createdAt, to'
+    })
+    this.keyring = new LogKeyring(this.db.table<StoredLogKey, string>('keys'))
+
+    this.configureEncryption({ mode: this.storage.encryption }).catch((err) =>
+      this.error('Log encryption setup failed', err)
+    )
 
-    // Generate encryption key
-    generateKey()
-      .then((key) => (this.encryptionKey = key))
-      .catch((err) => this.error('Key generation failed', err))
+    loggerRegistry.register(this)
+    installLogConsole()
+    this.mirror = new LogMirror((entry) => this.receiveMirrored(entry))
+
+    this.pipeline = new LogPipeline(logPipelineConfigSchema.parse({}), {
+      production: import.meta.env.PROD,
+      emit: (record) => this.dispatch(record)
+    })
 
     // Attach performance monitoring
-    this.attachTransport(async (logObj: LogObj & ILogObjMeta) => {
+    this.attachTransport((logObj: LogObj & ILogObjMeta) => {
       this.store.push(() => this.handleLogTransport(logObj))
-      const entry = await this.saveToIndexedDB(logObj)
-      if (entry) this.subscribers.forEach((sub) => sub(entry))
+      const record = this.pipeline.process(toLogRecord(logObj))
+      if (record) this.dispatch(record)
 
       // @ts-ignore
       if (logObj._meta?.performance) {
         // @ts-ignore
         console.log(`[Performance] ${logObj._meta.performance}ms`)
       }
-      if (this.externalServiceUrl) {
-        await this.sendToExternalService(logObj)
-      }
+    })
+    this.addTransport(new ConsoleTransport())
+    this.addTransport({
+      name: 'indexeddb',
+      write: (record) => this.saveToIndexedDB(record)
     })
 
     // this.init(`Logger initialized for ${this.settings.name}`)
 
-    // Enforce 30-day retention on initialization
-    this.enforceRetentionPolicy().catch((err) =>
-      this.error('Retention enforcement failed', err)
+    // Saklama süresi, sekmenin lider olduğu bildirildiğinde
+    // (setMaintenanceLeader) uygulanır
+  }
+
+  /**
+   * Applies the `storage` config namespace; maintenance runs again in the
+   * leader tab so shorter retention or a smaller quota takes effect
+   * immediately.
+   */
+  public configureStorage(config: StorageConfigNamespace): void {
+    const encryptionChanged = config.encryption !== this.storage.encryption
+    this.storage = { ...config }
+    if (encryptionChanged) {
+      this.configureEncryption({ mode: config.encryption }).catch((err) =>
+        this.error('Log encryption setup failed', err)
+      )
+    }
+    this.runScheduledMaintenance().catch((err) =>
+      this.error('Log maintenance failed', err)
+    )
+  }
+
+  /**
+   * Only the leader tab runs scheduled maintenance so that tabs sharing
+   * LogDB do not archive and evict the same entries concurrently. Tabs
+   * start as followers; maintenance runs as soon as a tab becomes the
+   * leader.
+   */
+  public setMaintenanceLeader(leader: boolean): void {
+    const promoted = leader && !this.maintenanceLeader
+    this.maintenanceLeader = leader
+    if (promoted) {
+      this.runMaintenance().catch((err) =>
+        this.error('Log maintenance failed', err)
+      )
+    }
+  }
+
+  /**
+   * runMaintenance for timers and config changes; skipped in tabs that
+   * are not the leader
+   * @returns null when skipped
+   */
+  public async runScheduledMaintenance(): Promise<LogMaintenanceReport | null> {
+    return this.maintenanceLeader ? this.runMaintenance() : null
+  }
+
+  /**
+   * Applies the `logPipeline` config namespace; open rate limit windows
+   * keep their counts.
+   */
+  public configurePipeline(config: LogPipelineConfigNamespace): void {
+    this.pipeline.configure(config)
+  }
+
+  /**
+   * Loads or creates the encryption key for the given mode. When the key
+   * protection changes, stored entries are re-encrypted with the new key.
+   */
+  public configureEncryption(options: LogEncryptionOptions): Promise<void> {
+    return this.runKeyTask(async () => {
+      const hasStaleEntries = await this.keyring.load(
+        options.mode,
+        options.passphrase
+      )
+      if (hasStaleEntries) await this.reencryptLogs()
+      await this.flushPendingEntries()
+    })
+  }
+
+  /**
+   * Unwraps passphrase-protected keys; buffered entries are written once
+   * an active key is available.
+   */
+  public unlockLogs(passphrase: string): Promise<void> {
+    return this.configureEncryption({
+      mode: this.keyring.status.mode,
+      passphrase
+    })
+  }
+
+  /**
+   * Replaces the active key and re-encrypts stored entries with it.
+   */
+  public rotateEncryptionKey(passphrase?: string): Promise<void> {
+    return this.runKeyTask(async () => {
+      await this.keyring.rotate(passphrase)
+      await this.reencryptLogs()
+      this.info('Log encryption key rotated')
+    })
+  }
+
+  public getEncryptionStatus(): LogEncryptionStatus {
+    return this.keyring.status
+  }
+
+  /**
+   * Registers a transport; one with the same name is replaced without flushing.
+   */
+  public addTransport(
+    transport: LogTransport,
+    options: LogTransportOptions = {}
+  ): () => void {
+    const previous = this.transports.get(transport.name)
+    if (previous && previous.transport !== transport) {
+      this.disposeTransport(previous.transport)
+    }
+    this.transports.set(transport.name, { transport, options })
+    return () => {
+      if (this.transports.get(transport.name)?.transport === transport) {
+        this.removeTransport(transport.name)
+      }
+    }
+  }
+
+  public async removeTransport(name: string): Promise<void> {
+    const registered = this.transports.get(name)
+    if (!registered) return
+    this.transports.delete(name)
+    try {
+      await registered.transport.flush?.()
+    } catch (error) {
+      console.error(`Log transport ${name} flush failed`, error)
+    }
+    this.disposeTransport(registered.transport)
+  }
+
+  public getTransports(): string[] {
+    return [...this.transports.keys()]
+  }
+
+  /**
+   * Writes pending rate limit summaries, then flushes every transport
+   */
+  public async flushTransports(): Promise<void> {
+    this.pipeline.flush()
+    await Promise.all(
+      [...this.transports.values()].map(({ transport }) =>
+        transport
+          .flush?.()
+          .catch((error) =>
+            console.error(`Log transport ${transport.name} flush failed`, error)
+          )
+      )
     )
   }
 
+  public getLoggers(): LoggerInfo[] {
+    return loggerRegistry.list()
+  }
+
+  public setLogLevel(pattern: string, level: LoggerLevel): string[] {
+    const loggers = loggerRegistry.setLevel(pattern, level)
+    this.info('Log level changed', { pattern, level, loggers })
+    return loggers
+  }
+
+  public resetLogLevel(pattern?: string): string[] {
+    return loggerRegistry.resetLevel(pattern)
+  }
+
   /**
    * Cleans all logs from IndexedDB.
    */
@@ -117,17 +479,63 @@ export class LogService<LogObj>
     settings?: ISettingsParam<LogObj>,
     logObj?: LogObj
   ): ILogService<LogObj> {
-    const subLogger = this.getSubLogger({ ...settings }, logObj)
+    const subLogger = this.extend(this.getSubLogger({ ...settings }, logObj))
+    loggerRegistry.register(subLogger)
+    return subLogger
+  }
+
+  /**
+   * Kayıt defterine eklenmez; akış bitince çöp toplayıcıya bırakılır.
+   * Ayarlar üst logger'la paylaşılır ki çalışma zamanında değişen seviye
+   * uzun ömürlü alt logger'lara da uygulansın.
+   */
+  public withCorrelation(
+    correlationId: string | undefined
+  ): ILogService<LogObj> {
+    if (!correlationId) return this
+    const subLogger = this.getSubLogger({}, {
+      ...this.fields,
+      correlationId
+    } as LogObj)
+    subLogger.settings = this.settings
+    return this.extend(subLogger)
+  }
+
+  /**
+   * Alt logger'ın depolama ve yapılandırma metodları kök LogService'e
+   * bağlanır
+   */
+  private extend(subLogger: TSLogger<LogObj>): ILogService<LogObj> {
     return Object.assign(subLogger, {
       store: [],
       custom: this.custom.bind(subLogger),
       init: this.init.bind(subLogger),
       create: this.create.bind(subLogger),
+      withCorrelation: this.withCorrelation.bind(subLogger),
       exportLogs: this.exportLogs.bind(this),
+      downloadLogs: this.downloadLogs.bind(this),
       cleanLogs: this.cleanLogs.bind(this),
       getLogs: this.getLogs.bind(this),
       subscribeToLogs: this.subscribeToLogs.bind(this),
-      getLogAnalytics: this.getLogAnalytics.bind(this)
+      getLogAnalytics: this.getLogAnalytics.bind(this),
+      runMaintenance: this.runMaintenance.bind(this),
+      getStorageUsage: this.getStorageUsage.bind(this),
+      getArchives: this.getArchives.bind(this),
+      getArchiveEntries: this.getArchiveEntries.bind(this),
+      restoreArchive: this.restoreArchive.bind(this),
+      exportArchive: this.exportArchive.bind(this),
+      deleteArchive: this.deleteArchive.bind(this),
+      configureEncryption: this.configureEncryption.bind(this),
+      unlockLogs: this.unlockLogs.bind(this),
+      rotateEncryptionKey: this.rotateEncryptionKey.bind(this),
+      getEncryptionStatus: this.getEncryptionStatus.bind(this),
+      addTransport: this.addTransport.bind(this),
+      removeTransport: this.removeTransport.bind(this),
+      getTransports: this.getTransports.bind(this),
+      flushTransports: this.flushTransports.bind(this),
+      getLoggers: this.getLoggers.bind(this),
+      setLogLevel: this.setLogLevel.bind(this),
+      resetLogLevel: this.resetLogLevel.bind(this)
     }) as ILogService<LogObj>
   }
 
@@ -143,265 +551,870 @@ export class LogService<LogObj>
   }
 
   /**
-   * Exports logs from the last 30 days to CSV or XLS format.
-   * @param format 'csv' or 'xls'
-   * @returns Blob containing the exported file
-   */
-  public async exportLogs(format: 'csv' | 'xls' = 'csv'): Promise<Blob> {
-    const logs = await this.getLogs({}) // Get all logs
-    // const decryptedLogs = await Promise.all(
-    //   logs.data.map(async (log) => ({
-    //     ...log,
-    //     message: this.encryptionKey
-    //       ? await decryptData(log.message, this.encryptionKey)
-    //       : log.message
-    //   }))
-    // )
-
-    if (format === 'csv') {
-      const csvContent = [
-        'ID,Timestamp,Level,Message,Data',
-        ...logs.data.map(
-          (log) =>
-            `${log.id},${log.timestamp.toISOString()},${log.level},${log.message.replace(/,/g, '')},${JSON.stringify(log.data)}`
-        )
-      ].join('\n')
+   * Builds the export from pages of EXPORT_PAGE_SIZE entries; text
+   * formats never hold more than one page of entries.
+   */
+  public exportLogs({
+    format = 'csv',
+    filter = {}
+  }: LogExportOptions = {}): ReadableStream<Uint8Array> {
+    // Geçersiz filtre akış okunmadan bildirilir
+    this.planQuery(filter)
+    return exportStream(format, this.streamLogs(filter))
+  }
+
+  public async downloadLogs({
+    fileName,
+    ...options
+  }: LogDownloadOptions = {}): Promise<void> {
+    const format = options.format ?? 'csv'
+    await saveExport(
+      this.exportLogs(options),
+      fileName ?? exportFileName(format),
+      LOG_EXPORT_FORMATS[format].type
+    )
+  }
+
+  /**
+   * Provides analytics on stored logs. Counts come from the level index;
+   * only index keys are read, entries are not decrypted.
+   */
+  public async getLogAnalytics(): Promise<LogAnalytics> {
+    const table = this.db.table('logs')
+    const byLevel: Record<string, number> = {}
+    const days = new Map<string, LogDailyCount>()
+    for (const [name, id] of Object.entries(LOG_LEVEL_IDS)) {
+      const keys = await table
+        .where('[level+timestamp]')
+        .between([id, Dexie.minKey], [id, Dexie.maxKey])
+        .keys()
+      if (!keys.length) continue
+      byLevel[name] = keys.length
+      for (const key of keys) {
+        const date = toLocalDate((key as unknown[])[1] as Date)
+        let day = days.get(date)
+        if (!day) {
+          day = { date, total: 0, byLevel: {} }
+          days.set(date, day)
+        }
+        day.total++
+        day.byLevel[name] = (day.byLevel[name] ?? 0) + 1
+      }
+    }
+    const total = Object.values(byLevel).reduce((sum, count) => sum + count, 0)
+    return {
+      total,
+      byLevel,
+      byDay: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      averagePerDay: total / (days.size || 1)
+    }
+  }
+
+  /**
+   * Filters logs through the level, logger, correlation id or keyword
+   * index. Remaining conditions are checked while the index is walked,
+   * message and data filters after decryption.
+   */
+  public getLogs(filter: LogFilter): Promise<LogPage> {
+    return this.queryLogs(filter, true)
+  }
+
+  /**
+   * Subscribes to real-time log updates of every tab; entries of other
+   * tabs arrive through LogMirror.
+   * @returns Unsubscribe function
+   */
+  public subscribeToLogs(callback: (log: LogEntry) => void): () => void {
+    this.subscribers.push(callback)
+    return () => {
+      this.subscribers = this.subscribers.filter((sub) => sub !== callback)
+    }
+  }
+
+  /**
+   * Runs retention, rotation and quota checks in order. Runs are queued
+   * with encryption changes so archives are always written with the
+   * active key.
+   */
+  public runMaintenance(): Promise<LogMaintenanceReport> {
+    return this.runKeyTask(async () => {
+      const retention = await this.enforceRetentionPolicy()
+      const archivedEntries = await this.rotateLogs()
+      const eviction = await this.checkStorageQuota()
+      const changes = { ...retention, archivedEntries, ...eviction }
+      if (Object.values(changes).some(Boolean)) {
+        this.info('Log maintenance completed', changes)
+      }
+      return { ...changes, usage: await this.getStorageUsage() }
+    })
+  }
+
+  /**
+   * Entry size is estimated from the newest entries; origin values come
+   * from navigator.storage.estimate and include every other store.
+   */
+  public async getStorageUsage(): Promise<LogStorageUsage> {
+    let archives = 0
+    let archiveBytes = 0
+    await this.db
+      .table<StoredLogArchive, number>('archives')
+      .each((archive) => {
+        archives++
+        archiveBytes += archive.size
+      })
+    const entries = await this.db.table('logs').count()
+    const estimate = await estimateStorage()
+    return {
+      entries,
+      archives,
+      logBytes: entries * (await this.averageEntrySize()) + archiveBytes,
+      originUsage: estimate?.usage ?? null,
+      originQuota: estimate?.quota ?? null
+    }
+  }
+
+  public async getArchives(): Promise<LogArchive[]> {
+    const archives = await this.db
+      .table<StoredLogArchive, number>('archives')
+      .orderBy('to')
+      .reverse()
+      .toArray()
+    return archives.map((archive) => toArchiveInfo(archive, this.keyring))
+  }
 
-      FileSaver.saveAs(
-        new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }),
-        'logs.csv'
+  public async getArchiveEntries(id: number): Promise<LogEntry[]> {
+    return unpackArchive(await this.getArchive(id), this.keyring)
+  }
+
+  /**
+   * Restored entries are encrypted with the active key; the next
+   * maintenance archives them again if the logs store is still full.
+   */
+  public restoreArchive(id: number): Promise<number> {
+    return this.runKeyTask(async () => {
+      const entries = await unpackArchive(
+        await this.getArchive(id),
+        this.keyring
       )
-      return new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-    } else {
-      const workbook = new ExcelJS.Workbook()
-      const worksheet = workbook.addWorksheet('Logs')
-      worksheet.columns = [
-        { header: 'ID', key: 'id', width: 15 },
-        { header: 'Timestamp', key: 'timestamp', width: 25 },
-        { header: 'Level', key: 'level', width: 10 },
-        { header: 'Message', key: 'message', width: 50 },
-        { header: 'Data', key: 'data', width: 30 }
-      ]
-      logs.data.forEach((log) => worksheet.addRow(log))
-      const buffer = await workbook.xlsx.writeBuffer()
-      FileSaver.saveAs(
-        new Blob([buffer], {
-          type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-        }),
-        'logs.xls'
+      const sealed = await Promise.all(
+        entries.map((entry) => {
+          const draft: LogEntryDraft = { ...entry }
+          delete draft.id
+          return this.sealEntry(draft)
+        })
       )
-      return new Blob([buffer], {
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      const logs = this.db.table('logs')
+      const archives = this.db.table('archives')
+      await this.db.transaction('rw', logs, archives, async () => {
+        await logs.bulkAdd(sealed)
+        await archives.delete(id)
       })
+      this.info('Log archive restored', { id, entries: sealed.length })
+      return sealed.length
+    })
+  }
+
+  public async exportArchive(id: number): Promise<Blob> {
+    const json = JSON.stringify(await this.getArchiveEntries(id))
+    return canCompress()
+      ? new Blob([await gzip(json)], { type: 'application/gzip' })
+      : new Blob([json], { type: 'application/json' })
+  }
+
+  public async deleteArchive(id: number): Promise<void> {
+    await this.db.table('archives').delete(id)
+  }
+
+  /**
+   * Oldest entries beyond half of rotateAfterEntries are moved to
+   * archives once the count exceeds rotateAfterEntries. Entries whose key
+   * is not available stay in place, and nothing is archived while the
+   * key is locked.
+   */
+  async rotateLogs(): Promise<number> {
+    if (this.keyring.locked) return 0
+    const logs = this.db.table<SavedLogEntry, number>('logs')
+    const archives = this.db.table<StoredLogArchive, number>('archives')
+    const count = await logs.count()
+    if (count <= this.storage.rotateAfterEntries) return 0
+
+    let remaining = count - Math.floor(this.storage.rotateAfterEntries / 2)
+    let skipped = 0
+    let archived = 0
+    while (remaining > 0) {
+      const batch = await logs
+        .orderBy('timestamp')
+        .offset(skipped)
+        .limit(Math.min(remaining, ARCHIVE_ENTRY_LIMIT))
+        .toArray()
+      if (!batch.length) break
+      remaining -= batch.length
+
+      const readable = batch.filter(
+        (entry) => !entry.keyId || this.keyring.canDecrypt(entry.keyId)
+      )
+      skipped += batch.length - readable.length
+      if (!readable.length) continue
+
+      const archive = await packArchive(
+        await this.openEntries(readable),
+        this.keyring
+      )
+      await this.db.transaction('rw', logs, archives, async () => {
+        await archives.add(archive)
+        await logs.bulkDelete(readable.map((entry) => entry.id))
+      })
+      archived += readable.length
     }
+    return archived
   }
 
   /**
-   * Provides analytics on stored logs.
+   * Deletes the oldest archives, then the oldest entries while the
+   * estimated log size exceeds quotaMb or the origin uses more than
+   * originUsageRatio of its browser quota.
    */
-  public async getLogAnalytics(): Promise<LogAnalytics> {
-    const logs = await this.db.table('logs').toArray()
-    const byLevel = logs.reduce(
-      (acc, log) => {
-        acc[log.level] = (acc[log.level] || 0) + 1
-        return acc
-      },
-      {} as Record<string, number>
+  async checkStorageQuota(): Promise<{
+    evictedEntries: number
+    evictedArchives: number
+  }> {
+    const usage = await this.getStorageUsage()
+    const originExcess =
+      usage.originUsage !== null && usage.originQuota
+        ? usage.originUsage - usage.originQuota * this.storage.originUsageRatio
+        : 0
+    let excess = Math.max(
+      usage.logBytes - this.storage.quotaMb * 1024 * 1024,
+      // Başka store'ların kullandığı alan için log'lardan fazlası silinmez
+      Math.min(originExcess, usage.logBytes)
     )
-    const days =
-      [...new Set(logs.map((log) => log.timestamp.toDateString()))].length || 1
-    return {
-      total: logs.length,
-      byLevel,
-      averagePerDay: logs.length / days
+    if (excess <= 0) return { evictedEntries: 0, evictedArchives: 0 }
+
+    const archives = this.db.table<StoredLogArchive, number>('archives')
+    let evictedArchives = 0
+    for (const id of await archives.orderBy('to').primaryKeys()) {
+      if (excess <= 0) break
+      const archive = await archives.get(id)
+      await archives.delete(id)
+      excess -= archive?.size ?? 0
+      evictedArchives++
+    }
+
+    let evictedEntries = 0
+    if (excess > 0) {
+      const logs = this.db.table('logs')
+      const ids = await logs
+        .orderBy('timestamp')
+        .limit(Math.ceil(excess / (await this.averageEntrySize())))
+        .primaryKeys()
+      await logs.bulkDelete(ids)
+      evictedEntries = ids.length
     }
+    return { evictedEntries, evictedArchives }
   }
 
   /**
-   * Filters logs based on level, date range, or keyword.
+   * Deletes entries older than their level's retention and archives
+   * whose newest entry is older than archiveRetentionDays.
    */
-  public async getLogs(
-    filter: LogFilter
-  ): Promise<{ data: LogEntry[]; total: number }> {
-    const table = this.db.table('logs')
-    let collection = table.toCollection()
-    if (filter.level) {
-      collection = table.where('level').equals(filter.level)
+  private async enforceRetentionPolicy(): Promise<{
+    expiredEntries: number
+    expiredArchives: number
+  }> {
+    const logs = this.db.table('logs')
+    const now = Date.now()
+    const cutoff = (days: number) => new Date(now - days * DAY_MS)
+    const { retentionDays, retentionDaysByLevel } = this.storage
+
+    let expiredEntries = 0
+    for (const [name, level] of Object.entries(LOG_LEVEL_IDS)) {
+      const days = retentionDaysByLevel[name as LogLevelName] ?? retentionDays
+      expiredEntries += await logs
+        .where('[level+timestamp]')
+        .between([level, Dexie.minKey], [level, cutoff(days)])
+        .delete()
+    }
+    // Bilinen seviyelerin dışındaki kayıtlar en uzun süre sonunda silinir
+    const longest = Math.max(
+      retentionDays,
+      ...(Object.values(retentionDaysByLevel) as number[])
+    )
+    expiredEntries += await logs
+      .where('timestamp')
+      .below(cutoff(longest))
+      .delete()
+
+    const expiredArchives = await this.db
+      .table('archives')
+      .where('to')
+      .below(cutoff(this.storage.archiveRetentionDays))
+      .delete()
+    return { expiredEntries, expiredArchives }
+  }
+
+  private async getArchive(id: number): Promise<StoredLogArchive> {
+    const archive = await this.db
+      .table<StoredLogArchive, number>('archives')
+      .get(id)
+    if (!archive) {
+      throw new Error(`Log archive ${id} not found`)
     }
+    return archive
+  }
 
-    if (filter.startDate && filter.endDate) {
-      collection = collection.filter(
-        (log) =>
-          log.timestamp >= filter.startDate! && log.timestamp <= filter.endDate!
+  private async averageEntrySize(): Promise<number> {
+    const sample = await this.db
+      .table('logs')
+      .orderBy('timestamp')
+      .reverse()
+      .limit(SIZE_SAMPLE_SIZE)
+      .toArray()
+    if (!sample.length) return DEFAULT_ENTRY_SIZE
+    return new Blob([JSON.stringify(sample)]).size / sample.length
+  }
+
+  private handleLogTransport(logObj: LogObj & ILogObjMeta): void {
+    console.log('Transport handled:', logObj)
+  }
+
+  /**
+   * Saves log entry to IndexedDB. While a passphrase-protected key is
+   * locked, entries are kept in memory instead of being written in clear.
+   */
+  private async saveToIndexedDB(record: LogRecord): Promise<void> {
+    const { args, errors, levelId, ...fields } = record
+    const entry: CreateLogEntry = {
+      ...fields,
+      level: levelId,
+      data: args.length
+        ? JSON.stringify(toJsonValue(args.length === 1 ? args[0] : args))
+        : '',
+      ...(errors.length && { errors })
+    }
+    await this.keyTask
+    if (this.keyring.locked) {
+      this.pendingEntries.push(entry)
+      if (this.pendingEntries.length > PENDING_ENTRY_LIMIT) {
+        this.pendingEntries.shift()
+      }
+      return
+    }
+    const saved = await this.persistEntry(entry)
+    if (saved) this.publish(saved)
+  }
+
+  private async persistEntry(
+    entry: CreateLogEntry
+  ): Promise<LogEntry | undefined> {
+    try {
+      const id = await this.db.table('logs').put(await this.sealEntry(entry))
+      return { ...entry, id } as LogEntry
+    } catch (error) {
+      // this.error kullanılmaz: kayıt hatası yeni bir kayıt denemesine yol açar
+      console.error('Failed to save log to IndexedDB', error)
+      return undefined
+    }
+  }
+
+  private async flushPendingEntries(): Promise<void> {
+    if (this.keyring.locked || !this.pendingEntries.length) return
+    const entries = this.pendingEntries
+    this.pendingEntries = []
+    for (const entry of entries) {
+      const saved = await this.persistEntry(entry)
+      if (saved) this.publish(saved)
+    }
+  }
+
+  private async sealEntry({
+    errors,
+    ...entry
+  }: LogEntryDraft): Promise<StoredLogEntry> {
+    const tokens = entryTokens(entry.message, errors)
+    const stored: StoredLogEntry = {
+      ...entry,
+      ...(errors?.length && { errors: JSON.stringify(errors) })
+    }
+    if (!this.keyring.enabled) return { ...stored, tokens }
+
+    const message = await this.keyring.encrypt(stored.message)
+    const seal = async (value?: string) =>
+      value ? (await this.keyring.encrypt(value, message.keyId)).value : value
+    return {
+      ...stored,
+      keyId: message.keyId,
+      message: message.value,
+      data: await seal(stored.data),
+      errors: await seal(stored.errors),
+      tokens: await Promise.all(
+        [...new Set([...tokens, ...tokens.map(prefixToken)])].map((token) =>
+          this.keyring.indexToken(message.keyId, token)
+        )
       )
-    } else if (filter.startDate) {
-      collection = collection.filter(
-        (log) => log.timestamp >= filter.startDate!
+    }
+  }
+
+  private async openEntry({
+    keyId,
+    ...stored
+  }: StoredLogEntry): Promise<LogEntry> {
+    // Token'lar yalnızca sorguda kullanılır
+    delete stored.tokens
+    let { message, data, errors } = stored
+    if (keyId) {
+      const open = (value?: string) =>
+        value ? this.keyring.decrypt(keyId, value) : value
+      try {
+        message = await this.keyring.decrypt(keyId, message)
+        data = await open(data)
+        errors = await open(errors)
+      } catch {
+        message = UNREADABLE_MESSAGE
+        data = ''
+        errors = undefined
+      }
+    }
+    // Okunan kayıtların id'si her zaman doludur
+    return {
+      ...stored,
+      message,
+      data,
+      errors: errors ? JSON.parse(errors) : undefined
+    } as LogEntry
+  }
+
+  private openEntries(entries: StoredLogEntry[]): Promise<LogEntry[]> {
+    return Promise.all(entries.map((entry) => this.openEntry(entry)))
+  }
+
+  /**
+   * @param countTotal false skips counting matches, e.g. while exporting.
+   * With filters checked after decryption every match is decrypted and
+   * counted from the first entry; only entries after the cursor fill the
+   * page.
+   */
+  private async queryLogs(
+    filter: LogFilter,
+    countTotal: boolean
+  ): Promise<LogPage> {
+    const table = this.db.table<SavedLogEntry, number>('logs')
+    let plan = this.planQuery(filter)
+    const cursor = decodeCursor(filter.cursor)
+    const limit = filter.pageSize ? filter.pageSize + 1 : Infinity
+    const chunkSize = plan.matchesOpened ? QUERY_CHUNK_SIZE : limit
+    // Toplam, cursor'dan bağımsız olarak tüm eşleşmeleri kapsar
+    const countOpened = countTotal && plan.matchesOpened !== null
+    const scanCursor = countOpened ? null : cursor
+
+    let chunks: AsyncIterable<SavedLogEntry[]>
+    let total: number | undefined
+    const candidateIds =
+      plan.index === 'keyword'
+        ? await this.keywordCandidates(table, plan)
+        : null
+    if (candidateIds && candidateIds.size <= KEYWORD_BULK_LIMIT) {
+      const candidates = await this.bulkCandidates(
+        table,
+        plan,
+        filter,
+        candidateIds
+      )
+      total = countTotal && !plan.matchesOpened ? candidates.length : undefined
+      chunks = sliceChunks(
+        candidates.filter((entry) =>
+          isAfterCursor(entry, scanCursor, plan.descending)
+        ),
+        chunkSize
+      )
+    } else {
+      if (candidateIds) {
+        const { matchesStored } = plan
+        plan = {
+          ...plan,
+          index: 'timestamp',
+          matchesStored: (entry) =>
+            candidateIds.has(entry.id!) &&
+            (!matchesStored || matchesStored(entry))
+        }
+      }
+      if (countTotal && !plan.matchesOpened) {
+        const collection = this.indexedCollection(table, plan, filter, null)
+        total = await (
+          plan.matchesStored
+            ? collection.filter(plan.matchesStored)
+            : collection
+        ).count()
+      }
+      chunks = this.indexedChunks(table, plan, filter, scanCursor, chunkSize)
+    }
+
+    const data: LogEntry[] = []
+    let matched = 0
+    for await (const chunk of chunks) {
+      for (const entry of await this.openEntries(chunk)) {
+        if (plan.matchesOpened && !plan.matchesOpened(entry)) continue
+        matched++
+        if (
+          data.length < limit &&
+          isAfterCursor(entry, cursor, plan.descending)
+        ) {
+          data.push(entry)
+        }
+        if (!countOpened && data.length >= limit) break
+      }
+      if (!countOpened && data.length >= limit) break
+    }
+    if (countOpened) total = matched
+
+    const hasMore = data.length > (filter.pageSize ?? Infinity)
+    if (hasMore) data.length = filter.pageSize!
+    return {
+      data,
+      ...(total !== undefined && { total }),
+      nextCursor: hasMore ? encodeCursor(data[data.length - 1]) : null
+    }
+  }
+  private async *streamLogs(
+    filter: Omit<LogFilter, 'cursor' | 'pageSize'>
+  ): AsyncGenerator<LogEntry[]> {
+    let cursor: string | undefined
+    do {
+      const page = await this.queryLogs(
+        { order: 'asc', ...filter, cursor, pageSize: EXPORT_PAGE_SIZE },
+        false
       )
-    } else if (filter.endDate) {
-      collection = collection.filter((log) => log.timestamp <= filter.endDate!)
+      yield page.data
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+  }
+
+  /**
+   * Sorgu için index seçer: correlation id, kelime, tek seviye, tek logger
+   * adı, hiçbiri yoksa zaman damgası
+   */
+  private planQuery(filter: LogFilter): QueryPlan {
+    const levels = resolveLevels(filter.level)
+    const loggers =
+      filter.logger === undefined ? undefined : toArray(filter.logger)
+    const keywordTokens = filter.keyword ? tokenize(filter.keyword) : []
+    const index: QueryIndex = filter.correlationId
+      ? 'correlationId'
+      : keywordTokens.length
+        ? 'keyword'
+        : levels?.length === 1
+          ? 'level'
+          : loggers?.length === 1 && !loggers[0].endsWith('*')
+            ? 'logger'
+            : 'timestamp'
+
+    const storedChecks: Array<(entry: IndexedLogFields) => boolean> = []
+    if (levels && index !== 'level') {
+      storedChecks.push((entry) => levels.includes(entry.level))
+    }
+    if (filter.minLevel !== undefined) {
+      const minLevel = resolveLevel(filter.minLevel)
+      storedChecks.push((entry) => entry.level >= minLevel)
+    }
+    if (loggers && index !== 'logger') {
+      storedChecks.push((entry) => matchesLogger(entry.logger, loggers))
+    }
+    for (const [field, expected] of plainFields(filter.fields)) {
+      storedChecks.push((entry) => matchesField(entry[field], expected))
     }
 
+    // Kelime index'i yalnızca adayları daraltır; arama metni mesajda veya
+    // hata mesajlarında büyük/küçük harf duyarsız olarak geçmelidir
+    const openedChecks: Array<(entry: LogEntry) => boolean> = []
     if (filter.keyword) {
-      collection = collection.filter((log) =>
-        log.message.toLowerCase().includes(filter.keyword!.toLowerCase())
+      const keyword = filter.keyword.toLowerCase()
+      openedChecks.push((entry) =>
+        [
+          entry.message,
+          ...(entry.errors ?? []).map((error) => error.message)
+        ].some((text) => text.toLowerCase().includes(keyword))
       )
     }
+    for (const [field, expected] of encryptedFields(filter.fields)) {
+      openedChecks.push((entry) => matchesField(entry[field], expected))
+    }
 
-    const totalCount = await collection.count()
-    if (filter.page && filter.pageSize) {
-      const offset = (filter.page - 1) * filter.pageSize
-      collection = collection.offset(offset).limit(filter.pageSize)
+    return {
+      index,
+      descending: filter.order !== 'asc',
+      levels,
+      loggers,
+      keywordTokens,
+      matchesStored: storedChecks.length
+        ? (entry) => storedChecks.every((check) => check(entry))
+        : null,
+      matchesOpened: openedChecks.length
+        ? (entry) => openedChecks.every((check) => check(entry))
+        : null
     }
+  }
 
-    const logs = await collection.toArray()
-    // const decryptedLogs = await Promise.all(
-    //   logs.map(async (log) => ({
-    //     ...log,
-    //     message: this.encryptionKey
-    //       ? await decryptData(log.message, this.encryptionKey)
-    //       : log.message
-    //   }))
-    // )
-    if (filter.keyword) {
-      return {
-        data: logs.filter((log) => log.message.includes(filter.keyword)),
-        total: totalCount
-      }
+  /**
+   * Seçilen index'te tarih aralığını (ve cursor'ı) kapsayan, istenen sırada
+   * dolaşılan koleksiyon. Cursor'daki zaman damgası dahildir; eşit
+   * damgalılar isAfterCursor ile elenir.
+   */
+  private indexedCollection(
+    table: Table<SavedLogEntry, number>,
+    plan: QueryPlan,
+    filter: LogFilter,
+    cursor: LogCursor | null
+  ): Collection<SavedLogEntry, number> {
+    const lower =
+      cursor && !plan.descending
+        ? new Date(cursor.timestamp)
+        : (filter.startDate ?? Dexie.minKey)
+    const upper =
+      cursor && plan.descending
+        ? new Date(cursor.timestamp)
+        : (filter.endDate ?? Dexie.maxKey)
+    const prefix =
+      plan.index === 'level'
+        ? plan.levels![0]
+        : plan.index === 'logger'
+          ? plan.loggers![0]
+          : plan.index === 'correlationId'
+            ? filter.correlationId
+            : undefined
+
+    const collection =
+      prefix === undefined
+        ? table.where('timestamp').between(lower, upper, true, true)
+        : table
+            .where(`[${plan.index}+timestamp]`)
+            .between([prefix, lower], [prefix, upper], true, true)
+    return plan.descending ? collection.reverse() : collection
+  }
+
+  /**
+   * Eşleşen kayıtları gruplar hâlinde okur; her grup bir öncekinin son
+   * kaydından devam eder
+   */
+  private async *indexedChunks(
+    table: Table<SavedLogEntry, number>,
+    plan: QueryPlan,
+    filter: LogFilter,
+    cursor: LogCursor | null,
+    chunkSize: number
+  ): AsyncGenerator<SavedLogEntry[]> {
+    let position = cursor
+    for (;;) {
+      const after = position
+      const collection = this.indexedCollection(
+        table,
+        plan,
+        filter,
+        after
+      ).filter(
+        (entry) =>
+          isAfterCursor(entry, after, plan.descending) &&
+          (!plan.matchesStored || plan.matchesStored(entry))
+      )
+      const chunk = await (
+        chunkSize === Infinity ? collection : collection.limit(chunkSize)
+      ).toArray()
+      if (chunk.length) yield chunk
+      if (chunk.length < chunkSize) return
+      position = toCursor(chunk[chunk.length - 1])
     }
-    return { data: logs, total: totalCount }
   }
 
   /**
-   * Subscribes to real-time log updates.
-   * @returns Unsubscribe function
+   * Her kelimeyle başlayan bir token'ı olan kayıtların id'leri; yalnızca
+   * primary key'ler okunur. Token'lar küçük harfle saklandığından önek
+   * araması büyük/küçük harf duyarsızdır. Şifreli kayıtlarda her açık
+   * anahtar için kelimenin ve önekinin özeti aranır; önek token'ı olmayan
+   * eski kayıtlarda yalnızca tam kelime eşleşir.
    */
-  public subscribeToLogs(callback: (log: LogEntry) => void): () => void {
-    this.subscribers.push(callback)
-    return () => {
-      this.subscribers = this.subscribers.filter((sub) => sub !== callback)
+  private async keywordCandidates(
+    table: Table<SavedLogEntry, number>,
+    plan: QueryPlan
+  ): Promise<Set<number>> {
+    let ids: Set<number> | undefined
+    for (const token of plan.keywordTokens) {
+      const previous: Set<number> | undefined = ids
+      const variants = [token, prefixToken(token)]
+      const blinded = await Promise.all(
+        this.keyring.indexedKeyIds.flatMap((keyId) =>
+          variants.map((variant) => this.keyring.indexToken(keyId, variant))
+        )
+      )
+      const matches = new Set<number>([
+        ...(await table.where('tokens').startsWith(token).primaryKeys()),
+        ...(blinded.length
+          ? await table.where('tokens').anyOf(blinded).primaryKeys()
+          : [])
+      ])
+      ids = previous
+        ? new Set([...previous].filter((id) => matches.has(id)))
+        : matches
+      if (!ids.size) break
     }
+    return ids ?? new Set()
   }
 
-  async checkStorageQuota(): Promise<void> {
-    const logs = await this.db.table('logs').toArray()
-    const size = JSON.stringify(logs).length / 1024 / 1024 // MB cinsinden
-    if (size > 50) {
-      const toDelete = logs.slice(0, logs.length / 2)
-      await this.db
-        .table('logs')
-        .where('id')
-        .anyOf(toDelete.map((l) => l.id))
-        .delete()
-      this.info('Storage quota exceeded, old logs deleted')
+  /**
+   * Az sayıdaki aday tek seferde okunur ve sıralanır
+   */
+  private async bulkCandidates(
+    table: Table<SavedLogEntry, number>,
+    plan: QueryPlan,
+    filter: LogFilter,
+    ids: Set<number>
+  ): Promise<SavedLogEntry[]> {
+    const entries = await table.bulkGet([...ids])
+    return entries
+      .filter(
+        (entry): entry is SavedLogEntry =>
+          !!entry &&
+          (!filter.startDate || entry.timestamp >= filter.startDate) &&
+          (!filter.endDate || entry.timestamp <= filter.endDate) &&
+          (!plan.matchesStored || plan.matchesStored(entry))
+      )
+      .sort((a, b) =>
+        plan.descending ? compareEntries(b, a) : compareEntries(a, b)
+      )
+  }
+
+  /**
+   * Aktif anahtarla şifrelenmemiş kayıtları ve arşivleri gruplar hâlinde
+   * yeniden şifreler, ardından eski anahtarları siler. WebCrypto çağrıları
+   * Dexie transaction'ını kapattığından her grup ayrı yazılır. Açılamayan
+   * anahtarlara ait kayıtlar ve anahtarları olduğu gibi kalır.
+   */
+  private async reencryptLogs(): Promise<void> {
+    const table = this.db.table('logs')
+    let lastId: number | undefined
+    for (;;) {
+      const batch: StoredLogEntry[] = await (
+        lastId === undefined
+          ? table.orderBy(':id')
+          : table.where(':id').above(lastId)
+      )
+        .limit(REENCRYPT_BATCH_SIZE)
+        .toArray()
+      if (!batch.length) break
+      lastId = batch[batch.length - 1].id
+
+      const updated: StoredLogEntry[] = []
+      for (const entry of batch) {
+        if (this.keyring.isActive(entry.keyId)) continue
+        if (entry.keyId && !this.keyring.canDecrypt(entry.keyId)) continue
+        const opened = await this.openEntry(entry)
+        updated.push(await this.sealEntry(opened as unknown as LogEntryDraft))
+      }
+      await table.bulkPut(updated)
+    }
+
+    const archives = this.db.table<StoredLogArchive, number>('archives')
+    for (const id of await archives.toCollection().primaryKeys()) {
+      const archive = await archives.get(id)
+      if (!archive || this.keyring.isActive(archive.keyId)) continue
+      if (
+        archive.keyId
+          ? !this.keyring.canDecrypt(archive.keyId)
+          : !this.keyring.enabled
+      ) {
+        continue
+      }
+      const packed = await packArchive(
+        await unpackArchive(archive, this.keyring),
+        this.keyring
+      )
+      await archives.put({ ...packed, id, createdAt: archive.createdAt })
     }
+    await this.keyring.retire()
   }
 
-  async encryptLog(message: string): Promise<string> {
-    const key = await crypto.subtle.generateKey(
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt']
+  private runKeyTask<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.keyTask.then(task)
+    this.keyTask = result.then(
+      () => undefined,
+      () => undefined
     )
-    const iv = crypto.getRandomValues(new Uint8Array(12))
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      new TextEncoder().encode(message)
-    )
-    return `${btoa(String.fromCharCode(...iv))}.${btoa(String.fromCharCode(...new Uint8Array(encrypted)))}`
-  }
-
-  async rotateLogs(): Promise<void> {
-    const logs = await this.db.table('logs').toArray()
-    if (logs.length > 10000) {
-      // Örnek sınır
-      const oldLogs = logs.slice(0, 5000)
-      const compressed = await this.compressLogs(oldLogs)
-      await this.db
-        .table('archives')
-        .put({ id: Date.now().toString(), data: compressed })
-      await this.db
-        .table('logs')
-        .where('id')
-        .anyOf(oldLogs.map((l) => l.id))
-        .delete()
-      this.info('Logs rotated and archived')
-    }
+    return result
   }
 
-  private async compressLogs(logs: LogEntry[]): Promise<string> {
-    const data = JSON.stringify(logs)
-    return btoa(data)
+  private publish(entry: LogEntry): void {
+    this.subscribers.forEach((sub) => sub(entry))
+    this.mirror.post(entry)
   }
 
   /**
-   * Enforces 30-day retention policy by deleting older logs.
+   * Diğer sekmelerden gelen girdiler yalnızca abonelere iletilir; anahtar
+   * kilitliyken bu sekme kendi kayıtlarını da göstermediği için atılır
    */
-  private async enforceRetentionPolicy(): Promise<void> {
-    const thirtyDaysAgo = new Date()
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-    try {
-      await this.db
-        .table('logs')
-        .where('timestamp')
-        .below(thirtyDaysAgo)
-        .delete()
-      // this.debug('Retention policy enforced')
-    } catch (error) {
-      this.error('Retention policy enforcement failed', error)
-    }
+  private receiveMirrored(entry: LogEntry): void {
+    if (this.keyring.locked) return
+    this.subscribers.forEach((sub) => sub(entry))
   }
 
-  private handleLogTransport(logObj: LogObj & ILogObjMeta): void {
-    console.log('Transport handled:', logObj)
+  private dispatch(record: LogRecord): void {
+    this.transports.forEach(({ transport, options }) => {
+      if (acceptsRecord(options, record)) this.writeTo(transport, record)
+    })
   }
 
   /**
-   * Saves log entry to IndexedDB.
+   * Transport hataları konsola yazılır; logger'a yazmak aynı transport'u
+   * yeniden tetikleyeceği için kullanılmaz.
    */
-  private async saveToIndexedDB(
-    logObj: LogObj & ILogObjMeta
-  ): Promise<LogEntry> {
-    const message = `${logObj[1]}`
-    const data = logObj[2] ? JSON.stringify(logObj[2]) : ''
-    const encryptedMessage = this.encryptionKey
-      ? await encryptData(message, this.encryptionKey)
-      : message
-    const entry: CreateLogEntry = {
-      //id: Math.random().toString(36).substring(2, 9),
-      timestamp: new Date(logObj._meta.date),
-      level: `${logObj._meta.logLevelId}`,
-      message: encryptedMessage,
-      data
-    }
+  private writeTo(transport: LogTransport, record: LogRecord): void {
     try {
-      await this.db.table('logs').put(entry)
-      return entry as unknown as LogEntry
+      Promise.resolve(transport.write(record)).catch((error) =>
+        console.error(`Log transport ${transport.name} failed`, error)
+      )
     } catch (error) {
-      this.error('Failed to save log to IndexedDB', error)
-      throw error
+      console.error(`Log transport ${transport.name} failed`, error)
     }
   }
 
-  /**
-   * Sends log entry to an external service.
-   */
-  private async sendToExternalService(
-    logObj: LogObj & ILogObjMeta
-  ): Promise<void> {
-    if (!this.externalServiceUrl) return
+  private disposeTransport(transport: LogTransport): void {
     try {
-      await fetch(this.externalServiceUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(logObj)
-      })
-      this.debug('Log sent to external service')
+      Promise.resolve(transport.dispose?.()).catch((error) =>
+        console.error(`Log transport ${transport.name} dispose failed`, error)
+      )
     } catch (error) {
-      this.error('Failed to send log to external service', error)
+      console.error(`Log transport ${transport.name} dispose failed`, error)
     }
   }
 }
 
+function acceptsRecord(
+  { minLevel = 0, loggers }: LogTransportOptions,
+  record: LogRecord
+): boolean {
+  return record.levelId >= minLevel && matchesLogger(record.logger, loggers)
+}
+
+/**
+ * Yerel saat dilimine göre YYYY-MM-DD
+ */
+function toLocalDate(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0')
+  const day = `${date.getDate()}`.padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null
+  }
+  try {
+    return await navigator.storage.estimate()
+  } catch {
+    return null
+  }
+}
+
+async function* sliceChunks<T>(items: T[], size: number): AsyncGenerator<T[]> {
+  for (let start = 0; start < items.length; start += size) {
+    yield items.slice(start, start + size)
+  }
+}
+
 export const logService = new LogService({ name: 'Logger' })
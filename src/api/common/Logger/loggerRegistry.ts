@@ -0,0 +1,141 @@
+import type { ISettings } from 'tslog'
+
+import { resolveLevel } from './logQuery'
+import { type LoggerInfo, type LoggerLevel, LogLevel } from './types'
+
+/**
+ * Çalışma zamanında değiştirilen seviyelerin saklandığı localStorage anahtarı
+ */
+const LOG_LEVELS_STORAGE_KEY = 'bip.log.levels'
+
+interface RegisteredLogger {
+  settings: ISettings<unknown>
+  /**
+   * create() çağrısında verilen seviye; override kaldırılınca geri yüklenir
+   */
+  defaultMinLevel: number
+}
+
+/**
+ * Her addan en son oluşturulan logger'ı tutar ve minLevel'ını çalışma
+ * zamanında değiştirir. Aynı adla yeniden oluşturulan logger (ör.
+ * Bootstrapper.restart sonrası) öncekinin yerini alır; eski örnekler
+ * registry'de birikmez. tslog seviyeyi her çağrıda settings'ten
+ * okuduğu için değişiklik yeniden oluşturma gerektirmez. Override'lar
+ * localStorage'da saklanır ve sonradan oluşturulan logger'lara da uygulanır;
+ * tam ad eşleşmesi, en uzun glob'dan önce gelir.
+ */
+export class LoggerRegistry {
+  private loggers = new Map<string, RegisteredLogger>()
+  private overrides: Record<string, number>
+
+  constructor(private readonly storageKey = LOG_LEVELS_STORAGE_KEY) {
+    this.overrides = this.readOverrides()
+  }
+
+  public register(logger: { settings: ISettings<any> }): void {
+    const name = logger.settings.name ?? ''
+    const registered: RegisteredLogger = {
+      settings: logger.settings,
+      defaultMinLevel: logger.settings.minLevel
+    }
+    this.loggers.set(name, registered)
+    this.apply(registered, name)
+  }
+
+  public list(): LoggerInfo[] {
+    return [...this.loggers.entries()]
+      .map(([name, registered]) => {
+        const override = this.findOverride(name)
+        return {
+          name,
+          minLevel: registered.settings.minLevel,
+          defaultMinLevel: registered.defaultMinLevel,
+          ...(override && { override })
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * @param pattern Logger name; * matches any characters
+   * @returns Names of the loggers currently matching the pattern
+   * @throws Error if the level is unknown
+   */
+  public setLevel(pattern: string, level: LoggerLevel): string[] {
+    this.overrides[pattern] = toLevelId(level)
+    this.writeOverrides()
+    return this.applyMatching(pattern)
+  }
+
+  /**
+   * Override'ı kaldırır; pattern verilmezse hepsi kaldırılır
+   * @returns Names of the loggers whose level was re-applied
+   */
+  public resetLevel(pattern?: string): string[] {
+    const patterns =
+      pattern === undefined ? Object.keys(this.overrides) : [pattern]
+    patterns.forEach((key) => delete this.overrides[key])
+    this.writeOverrides()
+    return [...new Set(patterns.flatMap((key) => this.applyMatching(key)))]
+  }
+
+  private applyMatching(pattern: string): string[] {
+    const regex = globToRegExp(pattern)
+    const names = [...this.loggers.keys()].filter((name) => regex.test(name))
+    names.forEach((name) => this.apply(this.loggers.get(name)!, name))
+    return names
+  }
+
+  private apply(logger: RegisteredLogger, name: string): void {
+    const override = this.findOverride(name)
+    logger.settings.minLevel = override
+      ? this.overrides[override]
+      : logger.defaultMinLevel
+  }
+
+  private findOverride(name: string): string | undefined {
+    if (name in this.overrides) return name
+    return Object.keys(this.overrides)
+      .filter((pattern) => globToRegExp(pattern).test(name))
+      .sort((a, b) => b.length - a.length)[0]
+  }
+
+  private readOverrides(): Record<string, number> {
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private writeOverrides(): void {
+    try {
+      if (Object.keys(this.overrides).length) {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.overrides))
+      } else {
+        localStorage.removeItem(this.storageKey)
+      }
+    } catch (error) {
+      console.warn('Failed to persist log levels', error)
+    }
+  }
+}
+
+function toLevelId(level: LoggerLevel): number {
+  if (typeof level === 'string' && level.toUpperCase() === 'SILENT') {
+    return LogLevel.SILENT
+  }
+  return resolveLevel(level as Exclude<LoggerLevel, 'SILENT'>)
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+export const loggerRegistry = new LoggerRegistry()
@@ -0,0 +1,34 @@
+import type { LogRecord, LogTransport } from '../types'
+
+/**
+ * Kayıtları tarayıcı konsoluna `[LEVEL][LOGGER] mesaj` biçiminde, seviyeye
+ * uygun console metoduyla yazar.
+ */
+export class ConsoleTransport implements LogTransport {
+  constructor(public readonly name: string = 'console') {}
+
+  public write(record: LogRecord): void {
+    const prefix = `[${record.levelName}]${record.logger ? `[${record.logger.toUpperCase()}]` : ''}`
+    getConsoleMethod(record.levelId)(
+      prefix,
+      record.message,
+      ...record.args.map(toConsoleValue)
+    )
+  }
+}
+
+/**
+ * tslog Error'ları { nativeError, stack } nesnesine çevirir; konsolda
+ * tıklanabilir stack için asıl Error yazılır.
+ */
+function toConsoleValue(value: unknown): unknown {
+  const nativeError = (value as { nativeError?: unknown } | null)?.nativeError
+  return nativeError instanceof Error ? nativeError : value
+}
+
+function getConsoleMethod(levelId: number): (...args: unknown[]) => void {
+  if (levelId <= 2) return console.debug
+  if (levelId === 4) return console.warn
+  if (levelId === 5 || levelId === 6) return console.error
+  return console.info
+}
@@ -0,0 +1,175 @@
+import type { Subscription } from 'rxjs'
+
+import type { INetworkChangeDetector } from '../../Network'
+import { canCompress, gzip } from '../compression'
+import type { LogRecord, LogTransport } from '../types'
+
+import { LogOutboxDB } from './logOutboxDB'
+import { type SerializedLogRecord, toSerializableRecord } from './serialize'
+
+export interface HttpBatchTransportOptions {
+  url: string
+  name?: string
+  /**
+   * Queue is sent as soon as it reaches this many records
+   */
+  batchSize?: number
+  /**
+   * Longest time a record waits in the queue
+   */
+  flushIntervalMs?: number
+  /**
+   * Gzip the request body when CompressionStream is available
+   */
+  compress?: boolean
+  headers?: Record<string, string>
+  /**
+   * Oldest unsent batches are dropped above this count
+   */
+  maxStoredBatches?: number
+  /**
+   * Online/offline source; navigator.onLine is used when omitted
+   */
+  network?: Pick<INetworkChangeDetector, 'getStatus' | 'onNetworkChange'>
+}
+
+type ResolvedOptions = Required<
+  Omit<HttpBatchTransportOptions, 'name' | 'network' | 'headers'>
+> &
+  Pick<HttpBatchTransportOptions, 'headers'>
+
+/**
+ * Kayıtları biriktirip tek istekte gönderir. Çevrimdışıyken veya gönderim
+ * başarısız olduğunda batch'ler IndexedDB'de bekletilir ve bağlantı
+ * geldiğinde sırayla gönderilir. Bekleyen batch'ler şifrelenmez.
+ */
+export class HttpBatchTransport implements LogTransport {
+  public readonly name: string
+  private readonly options: ResolvedOptions
+  private queue: SerializedLogRecord[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<void> = Promise.resolve()
+  private online: boolean
+  private subscription?: Subscription
+  private db: LogOutboxDB | null = null
+
+  constructor({ name, network, ...options }: HttpBatchTransportOptions) {
+    this.name = name ?? 'http'
+    this.options = {
+      batchSize: 50,
+      flushIntervalMs: 10000,
+      compress: true,
+      maxStoredBatches: 100,
+      ...options
+    }
+    this.online = network
+      ? network.getStatus() === 'online'
+      : typeof navigator === 'undefined' || navigator.onLine
+    this.subscription = network?.onNetworkChange().subscribe(({ status }) => {
+      const wasOnline = this.online
+      this.online = status === 'online'
+      if (!wasOnline && this.online) this.flush()
+    })
+  }
+
+  public write(record: LogRecord): void {
+    this.queue.push(toSerializableRecord(record))
+    if (this.queue.length >= this.options.batchSize) {
+      this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.options.flushIntervalMs)
+    }
+  }
+
+  /**
+   * Kuyruğu gönderir, ardından bekleyen batch'leri dener. Çağrılar sıraya
+   * alınır; aynı batch iki kez gönderilmez.
+   */
+  public flush(): Promise<void> {
+    this.clearTimer()
+    this.flushing = this.flushing.then(() => this.drain())
+    return this.flushing
+  }
+
+  public dispose(): void {
+    this.clearTimer()
+    this.subscription?.unsubscribe()
+    this.db?.close()
+    this.db = null
+  }
+
+  private async drain(): Promise<void> {
+    const records = this.queue.splice(0)
+    if (records.length && !(this.online && (await this.send(records)))) {
+      await this.store(records)
+      return
+    }
+    await this.sendStored()
+  }
+
+  private async sendStored(): Promise<void> {
+    const db = this.getDb()
+    if (!db) return
+    try {
+      while (this.online) {
+        const batch = await db.batches.orderBy('id').first()
+        if (!batch || !(await this.send(batch.records))) return
+        await db.batches.delete(batch.id!)
+      }
+    } catch (error) {
+      console.error('Failed to send stored log batches', error)
+    }
+  }
+
+  private async store(records: SerializedLogRecord[]): Promise<void> {
+    const db = this.getDb()
+    if (!db) return
+    try {
+      await db.batches.add({ createdAt: Date.now(), records })
+      const overflow =
+        (await db.batches.count()) - this.options.maxStoredBatches
+      if (overflow > 0) {
+        await db.batches.orderBy('id').limit(overflow).delete()
+      }
+    } catch (error) {
+      console.error('Failed to store log batch', error)
+    }
+  }
+
+  /**
+   * 4xx yanıtlarında tekrar denemek sonucu değiştirmeyeceği için batch
+   * gönderilmiş sayılır; ağ hatası, 429 ve 5xx'te false döner.
+   */
+  private async send(records: SerializedLogRecord[]): Promise<boolean> {
+    try {
+      const json = JSON.stringify({ records })
+      const compress = this.options.compress && canCompress()
+      const response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(compress && { 'Content-Encoding': 'gzip' }),
+          ...this.options.headers
+        },
+        body: compress ? await gzip(json) : json
+      })
+      return response.status < 500 && response.status !== 429
+    } catch {
+      return false
+    }
+  }
+
+  private getDb(): LogOutboxDB | null {
+    if (!this.db && typeof indexedDB !== 'undefined') {
+      this.db = new LogOutboxDB()
+    }
+    return this.db
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
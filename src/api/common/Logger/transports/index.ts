@@ -0,0 +1,3 @@
+export * from './consoleTransport'
+export * from './httpBatchTransport'
+export * from './serialize'
@@ -0,0 +1,23 @@
+import Dexie, { Table } from 'dexie'
+
+import type { SerializedLogRecord } from './serialize'
+
+export interface StoredLogBatch {
+  id?: number
+  createdAt: number
+  records: SerializedLogRecord[]
+}
+
+/**
+ * HttpBatchTransport'un çevrimdışıyken gönderemediği batch'ler
+ */
+export class LogOutboxDB extends Dexie {
+  public batches!: Table<StoredLogBatch, number>
+
+  constructor() {
+    super('LogOutboxDB')
+    this.version(1).stores({
+      batches: '++id, createdAt'
+    })
+  }
+}
@@ -0,0 +1,19 @@
+import { toJsonValue } from '../logRecord'
+import type { LogRecord } from '../types'
+
+/**
+ * JSON ve postMessage ile taşınabilen kayıt
+ */
+export interface SerializedLogRecord
+  extends Omit<LogRecord, 'timestamp' | 'args'> {
+  timestamp: string
+  args: unknown[]
+}
+
+export function toSerializableRecord(record: LogRecord): SerializedLogRecord {
+  return {
+    ...record,
+    timestamp: record.timestamp.toISOString(),
+    args: record.args.map(toJsonValue)
+  }
+}
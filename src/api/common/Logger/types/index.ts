@@ -17,28 +17,334 @@ export enum LogLevel {
   SILENT = 99
 }
 
+/**
+ * tslog level names, including the CUSTOM and INIT levels of LogService
+ */
+export type LogLevelName =
+  | 'SILLY'
+  | 'TRACE'
+  | 'DEBUG'
+  | 'INFO'
+  | 'WARN'
+  | 'ERROR'
+  | 'FATAL'
+  | 'CUSTOM'
+  | 'INIT'
+
+/**
+ * Level name, tslog level id or SILENT to mute a logger
+ */
+export type LoggerLevel = LogLevelName | 'SILENT' | number
+
+export interface LoggerInfo {
+  name: string
+  /**
+   * Effective tslog level id
+   */
+  minLevel: number
+  /**
+   * Level given when the logger was created
+   */
+  defaultMinLevel: number
+  /**
+   * Name or glob of the runtime override in effect
+   */
+  override?: string
+}
+
+/**
+ * Entry fields LogFilter.fields can match; message and data are
+ * matched after decryption
+ */
+export type LogFilterField =
+  | 'message'
+  | 'data'
+  | 'source'
+  | 'sessionId'
+  | 'tabId'
+
 export interface LogFilter {
-  level?: string | string[]
+  /**
+   * Level names (case-insensitive) or tslog level ids
+   */
+  level?: LogLevelName | number | Array<LogLevelName | number>
+  /**
+   * Lowest level included
+   */
+  minLevel?: LogLevelName | number
+  /**
+   * Logger names; a trailing * matches a prefix
+   */
+  logger?: string | string[]
+  correlationId?: string
   startDate?: Date
   endDate?: Date
+  /**
+   * Text that must appear in the message or its errors, case-insensitive.
+   * The word index finds entries whose words start with the searched words
+   */
   keyword?: string
-  page?: number
+  /**
+   * Exact value or regular expression per field
+   */
+  fields?: Partial<Record<LogFilterField, string | RegExp>>
+  /**
+   * Timestamp order; newest first by default
+   */
+  order?: 'asc' | 'desc'
+  /**
+   * nextCursor of the previous page
+   */
+  cursor?: string
+  /**
+   * Every match is returned when omitted
+   */
   pageSize?: number
 }
 
-export interface LogEntry {
-  id: string
+export type LogExportFormat = 'csv' | 'xlsx' | 'ndjson' | 'json'
+
+export interface LogExportOptions {
+  /**
+   * csv by default
+   */
+  format?: LogExportFormat
+  /**
+   * Entries to export, oldest first unless order is set; every entry when omitted
+   */
+  filter?: Omit<LogFilter, 'cursor' | 'pageSize'>
+}
+
+export interface LogDownloadOptions extends LogExportOptions {
+  /**
+   * logs-<timestamp>.<extension> by default
+   */
+  fileName?: string
+}
+
+export interface LogPage {
+  data: LogEntry[]
+  /**
+   * Number of matching entries; omitted when message or data filters
+   * would require decrypting every entry
+   */
+  total?: number
+  /**
+   * Cursor of the following page, null on the last page
+   */
+  nextCursor: string | null
+}
+
+/**
+ * Session, tab and flow ids attached to every record
+ */
+export interface LogContextValues {
+  /**
+   * AuthManager session guid
+   */
+  sessionId?: string
+  /**
+   * ActivityMonitor tab id
+   */
+  tabId?: string
+  /**
+   * Id shared by all records of one flow, e.g. a task run or a socket
+   * exchange; set through ILogService.withCorrelation
+   */
+  correlationId?: string
+}
+
+export interface SerializedLogError {
+  name: string
+  message: string
+  stack?: string
+}
+
+export interface LogEntry extends LogContextValues {
+  id: number
   timestamp: Date
-  level: string
+  /**
+   * tslog level id
+   */
+  level: number
+  levelName: string
+  /**
+   * Name of the (sub-)logger that produced the entry
+   */
+  logger: string
   message: string
+  /**
+   * JSON of the arguments after the message; a single argument is stored unwrapped
+   */
   data?: any
+  /**
+   * Errors found in the arguments, with stacks
+   */
+  errors?: SerializedLogError[]
+  /**
+   * File and line of the log call; not recorded in production builds
+   */
+  source?: string
 }
 
 export type CreateLogEntry = Omit<LogEntry, 'id'>
 
+/**
+ * How log messages are encrypted at rest:
+ * none stores plain text, device wraps the key with a browser-bound key,
+ * passphrase wraps it with a key derived from a user passphrase
+ */
+export type LogEncryptionMode = 'none' | 'device' | 'passphrase'
+
+export interface LogEncryptionOptions {
+  mode: LogEncryptionMode
+  /**
+   * Required to create or unlock a passphrase-protected key
+   */
+  passphrase?: string
+}
+
+export interface LogEncryptionStatus {
+  mode: LogEncryptionMode
+  /**
+   * True while a passphrase-protected key waits for unlockLogs;
+   * new entries are buffered in memory meanwhile
+   */
+  locked: boolean
+  /**
+   * Id of the key used for new entries
+   */
+  activeKeyId: string | null
+}
+
+/**
+ * A single log call as handed to transports; messages are never encrypted here
+ */
+export interface LogRecord extends LogContextValues {
+  timestamp: Date
+  /**
+   * tslog level id: 0 silly, 1 trace, 2 debug, 3 info, 4 warn, 5 error, 6 fatal
+   */
+  levelId: number
+  levelName: string
+  /**
+   * Name of the (sub-)logger that produced the record
+   */
+  logger: string
+  message: string
+  /**
+   * Remaining log arguments
+   */
+  args: unknown[]
+  errors: SerializedLogError[]
+  source?: string
+}
+
+export interface LogTransport {
+  /**
+   * Unique name in the transport registry
+   */
+  readonly name: string
+
+  write(record: LogRecord): void | Promise<void>
+
+  /**
+   * Sends or stores buffered records
+   */
+  flush?(): Promise<void>
+
+  dispose?(): void | Promise<void>
+}
+
+export interface LogTransportOptions {
+  /**
+   * Records below this tslog level id are skipped
+   */
+  minLevel?: number
+  /**
+   * Logger names the transport receives; a trailing * matches a prefix.
+   * Every logger when omitted
+   */
+  loggers?: string[]
+}
+
+/**
+ * Entries moved out of the logs store by rotation, without their content
+ */
+export interface LogArchive {
+  id: number
+  createdAt: Date
+  /**
+   * Timestamp of the oldest entry
+   */
+  from: Date
+  /**
+   * Timestamp of the newest entry
+   */
+  to: Date
+  count: number
+  /**
+   * Stored size in bytes
+   */
+  size: number
+  compression: 'gzip' | 'none'
+  /**
+   * False when the archive was encrypted with a key that is locked or deleted
+   */
+  readable: boolean
+}
+
+export interface LogStorageUsage {
+  entries: number
+  archives: number
+  /**
+   * Estimated size of entries and archives in bytes
+   */
+  logBytes: number
+  /**
+   * navigator.storage.estimate values for the whole origin; null when unsupported
+   */
+  originUsage: number | null
+  originQuota: number | null
+}
+
+/**
+ * Result of one retention, rotation and quota pass
+ */
+export interface LogMaintenanceReport {
+  expiredEntries: number
+  expiredArchives: number
+  archivedEntries: number
+  /**
+   * Entries and archives deleted to get back under the quota
+   */
+  evictedEntries: number
+  evictedArchives: number
+  usage: LogStorageUsage
+}
+
+/**
+ * Entries logged on one local calendar day
+ */
+export interface LogDailyCount {
+  /**
+   * Local date as YYYY-MM-DD
+   */
+  date: string
+  total: number
+  byLevel: Record<string, number>
+}
+
 export interface LogAnalytics {
   total: number
+  /**
+   * Entry count per level name
+   */
   byLevel: Record<string, number>
+  /**
+   * Days with at least one entry, oldest first
+   */
+  byDay: LogDailyCount[]
   averagePerDay: number
 }
 
@@ -49,15 +355,132 @@ export interface ILogService<LogObj> extends TSLogger<LogObj> {
 
   create(settings?: ISettingsParam<LogObj>): ILogService<LogObj>
 
-  exportLogs(format?: 'csv' | 'xls'): Promise<Blob>
+  /**
+   * Child logger with the same name that attaches correlationId to every
+   * record. It is not listed in getLoggers; create one per flow instead of
+   * keeping it.
+   * @returns this logger when correlationId is undefined
+   */
+  withCorrelation(correlationId: string | undefined): ILogService<LogObj>
 
-  cleanLogs(): Promise<void>
+  /**
+   * Streams the export file page by page without opening a download
+   * dialog; pages are read as the stream is consumed
+   * @throws Error if the filter is invalid
+   */
+  exportLogs(options?: LogExportOptions): ReadableStream<Uint8Array>
 
-  subscribeToLogs(callback: (log: LogEntry) => void): () => void
+  /**
+   * Exports entries and saves the file. Writes straight to disk where the
+   * browser offers a save dialog, otherwise through the browser download
+   */
+  downloadLogs(options?: LogDownloadOptions): Promise<void>
 
+  cleanLogs(): Promise<void>
+
+  /**
+   * Receives entries saved by any tab of the origin; LogEntry.tabId tells
+   * them apart
+   */
   subscribeToLogs(callback: (log: LogEntry) => void): () => void
 
-  getLogs(filter: LogFilter): Promise<{ data: LogEntry[]; total: number }>
+  /**
+   * Queries stored entries through the level, logger, correlation id or
+   * keyword indexes; pages continue from LogPage.nextCursor
+   * @throws Error if the cursor is invalid
+   */
+  getLogs(filter: LogFilter): Promise<LogPage>
 
   getLogAnalytics(): Promise<LogAnalytics>
+
+  /**
+   * Deletes expired entries and archives, archives entries above the
+   * rotation threshold and evicts the oldest data above the quota
+   */
+  runMaintenance(): Promise<LogMaintenanceReport>
+
+  getStorageUsage(): Promise<LogStorageUsage>
+
+  /**
+   * Archives, newest first
+   */
+  getArchives(): Promise<LogArchive[]>
+
+  /**
+   * Reads archived entries without restoring them
+   * @throws Error if the archive does not exist or cannot be decrypted
+   */
+  getArchiveEntries(id: number): Promise<LogEntry[]>
+
+  /**
+   * Moves archived entries back to the logs store
+   * @returns Number of restored entries
+   */
+  restoreArchive(id: number): Promise<number>
+
+  /**
+   * Decrypted archive content as gzipped JSON (plain JSON without CompressionStream)
+   */
+  exportArchive(id: number): Promise<Blob>
+
+  deleteArchive(id: number): Promise<void>
+
+  /**
+   * Switches the encryption mode; existing entries are re-encrypted
+   * when the key protection changes
+   * @throws Error if the passphrase is wrong
+   */
+  configureEncryption(options: LogEncryptionOptions): Promise<void>
+
+  /**
+   * Unwraps the passphrase-protected key and writes buffered entries
+   * @throws Error if the passphrase is wrong
+   */
+  unlockLogs(passphrase: string): Promise<void>
+
+  /**
+   * Creates a new key, re-encrypts stored entries with it and deletes the old keys
+   * @param passphrase New passphrase in passphrase mode; the current one is kept if omitted
+   */
+  rotateEncryptionKey(passphrase?: string): Promise<void>
+
+  getEncryptionStatus(): LogEncryptionStatus
+
+  /**
+   * Registers a transport, replacing one with the same name
+   * @returns Function removing the transport
+   */
+  addTransport(
+    transport: LogTransport,
+    options?: LogTransportOptions
+  ): () => void
+
+  /**
+   * Flushes and disposes the named transport
+   */
+  removeTransport(name: string): Promise<void>
+
+  getTransports(): string[]
+
+  flushTransports(): Promise<void>
+
+  /**
+   * Latest logger created through create() for each name
+   */
+  getLoggers(): LoggerInfo[]
+
+  /**
+   * Changes minLevel of matching loggers, including ones created later;
+   * the override is kept in localStorage
+   * @param pattern Logger name; * matches any characters
+   * @returns Names of the matching loggers
+   * @throws Error if the level is unknown
+   */
+  setLogLevel(pattern: string, level: LoggerLevel): string[]
+
+  /**
+   * Removes the override for pattern, or every override when omitted,
+   * restoring the levels given at creation
+   */
+  resetLogLevel(pattern?: string): string[]
 }
@@ -0,0 +1,96 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+/**
+ * ConfigurationService'teki `network` namespace'i. Yalnızca config
+ * dosyasından yönetilebilen (serileştirilebilir) alanlar yer alır;
+ * verilmeyen alanlarda NetworkChangeDetector varsayılanları geçerlidir.
+ */
+export const networkConfigSchema = z.object({
+  primaryUrl: z
+    .string({ description: 'Base URL of the health check endpoint' })
+    .url()
+    .default('https://pweb.bip.com'),
+  checkUrls: z
+    .array(z.string().url(), {
+      description: 'Fallback URLs tried when primaryUrl is unreachable'
+    })
+    .optional(),
+  healthPath: z
+    .string({ description: 'Path appended to each health check URL' })
+    .default('/health'),
+  baseIntervalMs: z
+    .number({ description: 'Health check interval while online (ms)' })
+    .int()
+    .min(1000)
+    .default(8000),
+  maxIntervalMs: z
+    .number({ description: 'Upper bound of the backed-off interval (ms)' })
+    .int()
+    .min(1000)
+    .optional(),
+  requestTimeoutMs: z
+    .number({ description: 'Timeout of a single health check request (ms)' })
+    .int()
+    .min(100)
+    .optional(),
+  maxChecksPerHour: z
+    .number({ description: 'Rate limit for health check requests' })
+    .int()
+    .min(1)
+    .optional(),
+  expectedStatus: z
+    .number({
+      description:
+        'HTTP status the health endpoint returns; any other 2xx suggests a captive portal'
+    })
+    .int()
+    .optional(),
+  expectedBody: z
+    .string({
+      description:
+        'Text the health response must contain; a mismatch suggests a captive portal'
+    })
+    .optional(),
+  detectRedirects: z
+    .boolean({
+      description:
+        'Treat health checks redirected to another origin as a captive portal; opaque no-cors responses count as unverified'
+    })
+    .default(true),
+  mergeStrategy: z
+    .enum(['conservative', 'optimistic'], {
+      description:
+        'Status chosen when online and offline probes carry equal weight; conservative also goes offline whenever the browser or Electron reports offline'
+    })
+    .default('conservative'),
+  imageBeacons: z
+    .array(
+      z.object({
+        url: z.string().url(),
+        weight: z.number().min(0).optional()
+      }),
+      { description: 'Images loaded as probes for hosts without CORS headers' }
+    )
+    .default([]),
+  authProbeWeight: z
+    .number({
+      description: 'Weight of the AuthManager pong probe; 0 disables it'
+    })
+    .min(0)
+    .default(1)
+})
+
+export type NetworkConfigNamespace = z.infer<typeof networkConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    network: NetworkConfigNamespace
+  }
+}
+
+export const networkConfigNamespace: ConfigNamespaceDefinition<'network'> = {
+  name: 'network',
+  schema: networkConfigSchema
+}
@@ -1,6 +1,6 @@
 // ---------------- Standalone Helpers ----------------
 
-import { NetworkErrorKind } from './types'
+import { NetworkErrorKind, SourceStatusSnapshot } from './types'
 
 function cacheBuster(url: string): string {
   const sep = url.includes('?') ? '&' : '?'
@@ -13,11 +13,58 @@ function joinUrl(base: string, path: string): string {
   return base + path
 }
 
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ERR_NAME_NOT_RESOLVED']
+
+const TLS_ERROR_CODE = /^(CERT_|ERR_TLS_|ERR_SSL_)|SELF_SIGNED|UNABLE_TO_VERIFY/
+
+/**
+ * Chromium tüm ağ hatalarını "Failed to fetch" olarak verir; dns/tls
+ * yalnızca Safari mesajlarından ve Node/Electron'un cause.code'undan ayrılır.
+ */
 function classifyError(err: any): NetworkErrorKind {
   if (err?.name === 'AbortError') return 'timeout'
+  const code = String(err?.cause?.code ?? err?.code ?? '')
+  const message = `${err?.message ?? ''} ${err?.cause?.message ?? ''}`
+  if (
+    DNS_ERROR_CODES.includes(code) ||
+    /hostname could not be found|name not resolved/i.test(message)
+  )
+    return 'dns'
+  if (
+    TLS_ERROR_CODE.test(code) ||
+    /SSL error|certificate|secure connection/i.test(message)
+  )
+    return 'tls'
   if (err?.message?.includes?.('abort')) return 'abort'
-  if (err?.message?.includes?.('Failed to fetch')) return 'network-error'
+  if (/Failed to fetch|NetworkError|Load failed/i.test(message))
+    return 'network-error'
   return 'other'
 }
 
-export { cacheBuster, classifyError, joinUrl }
+/**
+ * Yanıt istenen adresten farklı bir origin'e yönlendiyse true
+ */
+function isUnexpectedRedirect(
+  requestedUrl: string,
+  response: Response
+): boolean {
+  if (!response.redirected || !response.url) return false
+  try {
+    const base = globalThis.location?.href
+    return (
+      new URL(response.url, base).origin !== new URL(requestedUrl, base).origin
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Kaynağın composite birleşimdeki oyu: weight * confidence (0-1'e sıkıştırılır)
+ */
+function voteOf(source: SourceStatusSnapshot): number {
+  const confidence = Math.min(Math.max(source.confidence ?? 1, 0), 1)
+  return Math.max(source.weight ?? 1, 0) * confidence
+}
+
+export { cacheBuster, classifyError, isUnexpectedRedirect, joinUrl, voteOf }
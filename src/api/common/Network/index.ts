@@ -1,4 +1,6 @@
+export * from './configSchema'
 export * from './networkChangeDetector'
+export * from './probes'
 export * from './types'
 /*
 file:// electron-preload-network.ts
@@ -269,11 +271,9 @@ const detector = new NetworkChangeDetector({
     includeMetricsInEvents: true,
     electronIntegration: {
         enabled: true,
-        providerPrecedence: 'merge',
-        strategy: 'conservative',
-        overrideOfflineConfidenceThreshold: 0.85,
-        overrideOnlineConfidenceThreshold: 0.92
+        weight: 2
     },
+    mergeStrategy: 'conservative',
     logger
 })
 
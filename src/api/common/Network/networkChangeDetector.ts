@@ -1,23 +1,36 @@
-import { Observable, ReplaySubject, Subject } from 'rxjs'
+import { Observable, ReplaySubject, Subject, Subscription } from 'rxjs'
 import { inject, singleton } from 'tsyringe'
 
-import { dependsOn } from '@bipweb/core'
+import { dependsOn, optionalDependency } from '@bipweb/core'
 
 import type { ILogService } from '../Logger'
+import { CommonTokens } from '../tokens'
 
-import { cacheBuster, classifyError, joinUrl } from './helpers'
+import {
+  cacheBuster,
+  classifyError,
+  isUnexpectedRedirect,
+  joinUrl,
+  voteOf
+} from './helpers'
+import { IMAGE_BEACON_PROBE_PREFIX, ImageBeaconProbe } from './probes'
 import {
   ElectronIntegrationConfig,
   ElectronNetworkAugmentedInfo,
   ExternalProviderUpdate,
+  ImageBeaconConfig,
   INetworkChangeDetector,
   InternalCheckResult,
   NetworkChangeDetectorConfig,
+  NetworkChangeDetectorRuntimeConfig,
   NetworkChangeEvent,
   NetworkErrorEvent,
   NetworkErrorKind,
   NetworkInfo,
+  NetworkMergeStrategy,
   NetworkMetrics,
+  NetworkProbe,
+  NetworkProbeResult,
   NetworkStatus,
   NetworkType,
   SourceStatusSnapshot
@@ -37,6 +50,9 @@ const DEFAULT_CFG: Required<
     | 'electronIntegration'
     | 'logger'
     | 'loggerOptions'
+    | 'probes'
+    | 'expectedStatus'
+    | 'expectedBody'
   >
 > = {
   preferHead: true,
@@ -58,26 +74,51 @@ const DEFAULT_CFG: Required<
   ewmaAlpha: 0.2,
   onlineAccelerationFactor: 0.5,
   eventOnUnchangedStatus: false,
-  incrementEventOnUnchangedStatus: false
+  incrementEventOnUnchangedStatus: false,
+  mergeStrategy: 'conservative',
+  imageBeacons: [],
+  detectRedirects: true
 }
 
 const DEFAULT_ELECTRON_CFG: Required<ElectronIntegrationConfig> = {
   enabled: false,
-  providerPrecedence: 'merge',
-  strategy: 'conservative',
+  weight: 1,
   publishChannel: 'network:status',
-  requestChannel: 'network:request-sample',
-  overrideOfflineConfidenceThreshold: 0.85,
-  overrideOnlineConfidenceThreshold: 0.9
+  requestChannel: 'network:request-sample'
+}
+
+const RESERVED_SOURCE_NAMES = ['browser', 'electron']
+
+/**
+ * conservative stratejide offline bildirimi tek başına yeten kaynaklar
+ */
+const PROVIDER_SOURCES = ['browser', 'electron']
+
+/**
+ * Eşit oyda seçilecek status sırası
+ */
+const TIE_BREAK_ORDER: Record<NetworkMergeStrategy, NetworkStatus[]> = {
+  conservative: ['offline', 'limited', 'online'],
+  optimistic: ['online', 'limited', 'offline']
+}
+
+interface RegisteredProbe {
+  probe: NetworkProbe
+  snapshot?: SourceStatusSnapshot
+  subscription?: Subscription
 }
 
 /**
  * NetworkChangeDetector
- * - Tarayıcı olayları + aktif health check + (opsiyonel) Electron sağlayıcı birleşimi
+ * - Tarayıcı olayları + aktif health check + (opsiyonel) Electron sağlayıcı
+ *   + probe'ların ağırlıklı birleşimi
  * - Yalnızca status değişiminde event (default)
  * - Metrik resetleme desteği
  */
-@dependsOn('LogService')
+@dependsOn(
+  CommonTokens.LogService,
+  optionalDependency(CommonTokens.ConfigurationService)
+)
 @singleton()
 export class NetworkChangeDetector implements INetworkChangeDetector {
   public isInitialized: boolean = false
@@ -97,6 +138,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
   private statusLastChangedTs = 0
   private onlineSinceTs?: number
   private offlineSinceTs?: number
+  private limitedSinceTs?: number
   private eventIndex = 0
   private retryIndex = 0
   private intervalHandle: ReturnType<typeof setTimeout> | null = null
@@ -122,6 +164,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     currentIntervalMs: 0,
     totalOnlineDurationMs: 0,
     totalOfflineDurationMs: 0,
+    totalLimitedDurationMs: 0,
     currentStatusDurationMs: 0,
     prevStatusDurationMs: 0,
     statusLastChangedTs: 0,
@@ -129,6 +172,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     flapCountWindow: 0,
     flapCountTotal: 0,
     isFlapping: false,
+    captivePortalSuspected: false,
     electronUpdateCount: 0
   }
   private browserSource: SourceStatusSnapshot = {
@@ -140,8 +184,11 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     augmented?: ElectronNetworkAugmentedInfo
   }
   private electronProviderAttached = false
+  private probes = new Map<string, RegisteredProbe>()
 
-  constructor(@inject('LogService') private logger: ILogService<any>) {
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>
+  ) {
     this._logger = this.logger.create({
       name: this._name
     })
@@ -188,11 +235,52 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     this.currentInterval = this.cfg.baseIntervalMs
     this.metrics.currentIntervalMs = this.currentInterval
 
+    config.probes?.forEach((probe) => this.addProbe(probe))
+    this.syncImageBeacons(this.cfg.imageBeacons)
+
     if (this.cfg.autoStart) {
       this.start().catch((e) => this.logger.error('Auto start failed', e))
     }
   }
 
+  /**
+   * Çalışırken URL, aralık ve probe ayarlarını günceller. Aralık değiştiyse
+   * zamanlama yeni değerle baştan kurulur; URL değiştiyse hemen yeni
+   * adrese check yapılır.
+   */
+  public updateConfig(config: NetworkChangeDetectorRuntimeConfig): void {
+    const previous = this.cfg
+    const next = { ...this.cfg, ...config }
+    if (!next.primaryUrl && (!next.checkUrls || next.checkUrls.length === 0)) {
+      throw new Error(
+        'NetworkChangeDetector: primaryUrl veya checkUrls tanımlanmalı.'
+      )
+    }
+    this.cfg = next
+    this._logger.info('Config updated', config)
+
+    if (next.baseIntervalMs !== previous.baseIntervalMs) {
+      this.currentInterval = next.baseIntervalMs
+      this.metrics.currentIntervalMs = this.currentInterval
+      if (this.running) this.resetSchedule()
+    }
+
+    this.syncImageBeacons(next.imageBeacons)
+    if (next.mergeStrategy !== previous.mergeStrategy && this.running) {
+      this.composeAndMaybeEmit('config:merge-strategy')
+    }
+
+    const urlsChanged =
+      next.primaryUrl !== previous.primaryUrl ||
+      next.healthPath !== previous.healthPath ||
+      next.checkUrls?.join() !== previous.checkUrls?.join()
+    if (urlsChanged && this.running && !this.paused) {
+      this.checkNow().catch((e) =>
+        this._logger.error('Check after config update failed', e)
+      )
+    }
+  }
+
   /**
    * Servisi başlatır.
    */
@@ -231,10 +319,19 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     this.clearTimer()
     this.detachBrowserListeners()
     this.detachElectronIpc()
+    this.probes.forEach(({ subscription }) => subscription?.unsubscribe())
     this.status$.complete()
+    this.changed$.complete()
     this.error$.complete()
   }
 
+  /**
+   * ServiceContainer kapanışında çağrılır; stop() ile aynı temizliği yapar.
+   */
+  public dispose(): void {
+    this.stop()
+  }
+
   /**
    * Sağlık check döngüsünü geçici duraklatır (manual checkNow yine çalışır).
    */
@@ -314,6 +411,42 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     this.handleExternalProviderUpdate(update)
   }
 
+  /**
+   * Probe'u composite birleşime ekler. results$ hemen dinlenir; check()
+   * bir sonraki health check turunda çağrılır.
+   */
+  public addProbe(probe: NetworkProbe): void {
+    if (RESERVED_SOURCE_NAMES.includes(probe.name)) {
+      throw new Error(`NetworkChangeDetector: '${probe.name}' ayrılmış bir ad.`)
+    }
+    if (this.probes.has(probe.name)) {
+      throw new Error(
+        `NetworkChangeDetector: '${probe.name}' probe'u zaten kayıtlı.`
+      )
+    }
+    const registered: RegisteredProbe = { probe }
+    this.probes.set(probe.name, registered)
+    registered.subscription = probe.results$?.subscribe((result) => {
+      this.updateProbeSnapshot(registered, result)
+      if (this.running && !this.destroyed) {
+        this.composeAndMaybeEmit(`probe:${probe.name}`)
+      }
+    })
+    this._logger.info(`Probe added (${probe.name})`)
+  }
+
+  public removeProbe(name: string): boolean {
+    const registered = this.probes.get(name)
+    if (!registered) return false
+    registered.subscription?.unsubscribe()
+    this.probes.delete(name)
+    if (registered.snapshot && this.running && !this.destroyed) {
+      this.composeAndMaybeEmit(`probe:${name}:removed`)
+    }
+    this._logger.info(`Probe removed (${name})`)
+    return true
+  }
+
   /**
    * Metrikleri resetler. Varsayılan davranış: her şeyi sıfırla fakat
    * current status süre ölçerleri yeniden başlatılır.
@@ -358,6 +491,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
       lastFailureTs: undefined,
       totalOnlineDurationMs: 0,
       totalOfflineDurationMs: 0,
+      totalLimitedDurationMs: 0,
       currentStatusDurationMs: 0,
       prevStatusDurationMs: 0,
       statusLastChangedTs: now,
@@ -371,6 +505,9 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
       isFlapping: false,
       onlineSinceTs: status === 'online' ? now : undefined,
       offlineSinceTs: status === 'offline' ? now : undefined,
+      limitedSinceTs: status === 'limited' ? now : undefined,
+      captivePortalSuspected: this.metrics.captivePortalSuspected,
+      lastCaptivePortalTs: this.metrics.lastCaptivePortalTs,
       electronUpdateCount: 0,
       averageRttMs: preservedRtt.averageRttMs,
       minRttMs: preservedRtt.minRttMs,
@@ -455,10 +592,22 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
       this.metrics.electronOnlineConfidence =
         update.augmentedInfo.onlineConfidence
     }
+    const captivePortal =
+      update.status !== 'offline' &&
+      update.augmentedInfo?.captivePortalSuspected === true
+    if (captivePortal) {
+      this.metrics.captivePortalSuspected = true
+      this.metrics.lastCaptivePortalTs = now
+    }
+    const directionalConfidence =
+      update.status === 'offline'
+        ? update.augmentedInfo?.offlineConfidence
+        : update.augmentedInfo?.onlineConfidence
     this.electronSource = {
-      status: update.status,
+      status: captivePortal ? 'limited' : update.status,
       timestamp: update.timestamp || now,
-      confidence: update.confidence,
+      confidence: directionalConfidence ?? update.confidence,
+      weight: this.electronCfg.weight,
       provider: 'electron',
       augmented: update.augmentedInfo
     }
@@ -486,126 +635,153 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     }
   }
 
+  /**
+   * Her kaynak weight * confidence kadar oy verir; en çok oyu alan status
+   * seçilir, eşitlikte mergeStrategy karar verir. conservative'de browser
+   * veya Electron offline bildirirse oylamaya bakılmaz (probe'lar
+   * eklenmeden önceki davranış). Tek kaynak varsa (yalnızca browser) onun
+   * durumu aynen kullanılır.
+   */
   private determineStatusFromSources(triggerReason: string): {
     newStatus: NetworkStatus
     compositeReason: string
-    dominance: 'browser' | 'electron' | 'merged'
+    dominance: string
   } {
-    const browserStatus = this.browserSource.status
-    const es = this.electronSource
-    if (!this.electronCfg.enabled || !es) {
+    const sources = this.collectVotingSources()
+    if (sources.length === 1) {
       return {
-        newStatus: browserStatus,
+        newStatus: sources[0].status,
         compositeReason:
-          triggerReason === 'initial' ? 'browser-only' : triggerReason,
-        dominance: 'browser'
+          triggerReason === 'initial'
+            ? `${sources[0].provider}-only`
+            : triggerReason,
+        dominance: sources[0].provider!
       }
     }
 
-    const precedence = this.electronCfg.providerPrecedence
-    const strategy = this.electronCfg.strategy
-    const offlineOverride =
-      es.augmented?.offlineConfidence != null &&
-      es.augmented.offlineConfidence >=
-        this.electronCfg.overrideOfflineConfidenceThreshold
-    const onlineOverride =
-      es.augmented?.onlineConfidence != null &&
-      es.augmented.onlineConfidence >=
-        this.electronCfg.overrideOnlineConfidenceThreshold
-
-    if (precedence === 'electron-first') {
-      if (offlineOverride)
-        return {
-          newStatus: 'offline',
-          compositeReason: 'electron:offline-confidence',
-          dominance: 'electron'
-        }
-      if (onlineOverride)
-        return {
-          newStatus: 'online',
-          compositeReason: 'electron:online-confidence',
-          dominance: 'electron'
-        }
+    const score: Record<NetworkStatus, number> = {
+      online: 0,
+      offline: 0,
+      limited: 0
+    }
+    for (const source of sources) {
+      score[source.status] += voteOf(source)
+    }
+    const strategy = this.cfg.mergeStrategy
+    const votes = sources
+      .map((source) => `${source.provider}=${source.status}`)
+      .join(',')
+    const offlineProvider =
+      strategy === 'conservative'
+        ? sources.find(
+            (source) =>
+              source.status === 'offline' &&
+              PROVIDER_SOURCES.includes(source.provider!)
+          )
+        : undefined
+    if (offlineProvider) {
       return {
-        newStatus: es.status,
-        compositeReason: `electron-first:${triggerReason}`,
-        dominance: 'electron'
+        newStatus: 'offline',
+        compositeReason: `merge:conservative-offline:${triggerReason}(${votes})`,
+        dominance: offlineProvider.provider!
       }
     }
 
-    if (precedence === 'browser-first') {
-      if (offlineOverride)
-        return {
-          newStatus: 'offline',
-          compositeReason: 'electron:offline-override',
-          dominance: 'electron'
-        }
-      if (onlineOverride)
-        return {
-          newStatus: 'online',
-          compositeReason: 'electron:online-override',
-          dominance: 'electron'
-        }
-      return {
-        newStatus: browserStatus,
-        compositeReason: `browser-first:${triggerReason}`,
-        dominance: 'browser'
-      }
+    const newStatus = TIE_BREAK_ORDER[strategy].reduce((best, status) =>
+      score[status] > score[best] ? status : best
+    )
+    const winners = sources.filter((source) => source.status === newStatus)
+    return {
+      newStatus,
+      compositeReason: `merge:${strategy}:${triggerReason}(${votes})`,
+      dominance: winners.length === 1 ? winners[0].provider! : 'merged'
     }
+  }
 
-    // merge
-    if (strategy === 'conservative') {
-      if (offlineOverride)
-        return {
-          newStatus: 'offline',
-          compositeReason: 'merge:offline-confidence',
-          dominance: 'electron'
-        }
-      if (browserStatus === 'offline' || es.status === 'offline') {
-        return {
-          newStatus: 'offline',
-          compositeReason: `merge:conservative-offline(${browserStatus},${es.status})`,
-          dominance: es.status === 'offline' ? 'electron' : 'browser'
-        }
-      }
-      if (onlineOverride)
-        return {
-          newStatus: 'online',
-          compositeReason: 'merge:online-confidence',
-          dominance: 'electron'
-        }
-      return {
-        newStatus: 'online',
-        compositeReason: 'merge:both-online',
-        dominance: 'merged'
-      }
-    } else {
-      // optimistic
-      if (onlineOverride)
-        return {
-          newStatus: 'online',
-          compositeReason: 'merge:optimistic-online-override',
-          dominance: 'electron'
+  /**
+   * Süresi dolmuş (maxAgeMs) veya sıfır oy taşıyan probe sonuçları atlanır;
+   * browser her zaman oy verir.
+   */
+  private collectVotingSources(): SourceStatusSnapshot[] {
+    const now = this.now()
+    const sources: SourceStatusSnapshot[] = [this.browserSource]
+    if (this.electronCfg.enabled && this.electronSource) {
+      sources.push(this.electronSource)
+    }
+    for (const { probe, snapshot } of this.probes.values()) {
+      if (!snapshot || voteOf(snapshot) === 0) continue
+      if (probe.maxAgeMs != null && now - snapshot.timestamp > probe.maxAgeMs)
+        continue
+      sources.push(snapshot)
+    }
+    return sources
+  }
+
+  private updateProbeSnapshot(
+    registered: RegisteredProbe,
+    result: NetworkProbeResult | null
+  ): void {
+    const { probe } = registered
+    registered.snapshot = result
+      ? {
+          status: result.status,
+          timestamp: result.timestamp ?? this.now(),
+          confidence: result.confidence,
+          weight: probe.weight,
+          provider: probe.name,
+          rttMs: result.rttMs,
+          reason: result.reason
         }
-      if (browserStatus === 'online' || es.status === 'online') {
-        return {
-          newStatus: 'online',
-          compositeReason: 'merge:optimistic-online',
-          dominance: 'merged'
+      : undefined
+  }
+
+  /**
+   * Pull probe'ları paralel çalıştırır; hata fırlatan probe o tur oy
+   * kullanmaz.
+   */
+  private async runProbes(): Promise<void> {
+    const context = {
+      timeoutMs: this.cfg.requestTimeoutMs,
+      fetchFn: this.fetchFn
+    }
+    await Promise.all(
+      [...this.probes.values()].map(async (registered) => {
+        if (!registered.probe.check) return
+        let result: NetworkProbeResult | null = null
+        try {
+          result = await registered.probe.check(context)
+        } catch (error) {
+          this._logger.warn(`Probe failed (${registered.probe.name})`, error)
         }
-      }
-      if (offlineOverride)
-        return {
-          newStatus: 'offline',
-          compositeReason: 'merge:offline-confidence',
-          dominance: 'electron'
+        // Check sürerken kaldırılan probe'un sonucu yazılmaz
+        if (this.probes.get(registered.probe.name) === registered) {
+          this.updateProbeSnapshot(registered, result)
         }
-      return {
-        newStatus: 'offline',
-        compositeReason: 'merge:both-offline',
-        dominance: 'merged'
+      })
+    )
+  }
+
+  /**
+   * imageBeacons listesinde olmayan beacon probe'larını kaldırır, yenileri
+   * ekler; ağırlığı değişen beacon yeniden eklenir.
+   */
+  private syncImageBeacons(beacons: ImageBeaconConfig[] = []): void {
+    const wanted = new Map(
+      beacons.map((beacon) => [
+        `${IMAGE_BEACON_PROBE_PREFIX}${beacon.url}`,
+        beacon
+      ])
+    )
+    for (const [name, { probe }] of this.probes) {
+      if (!name.startsWith(IMAGE_BEACON_PROBE_PREFIX)) continue
+      const beacon = wanted.get(name)
+      if (beacon && (beacon.weight ?? 0.5) === probe.weight) {
+        wanted.delete(name)
+      } else {
+        this.removeProbe(name)
       }
     }
+    wanted.forEach((beacon) => this.addProbe(new ImageBeaconProbe(beacon)))
   }
 
   private emitCompositeStatus(reason: string, statusChanged: boolean): void {
@@ -640,6 +816,14 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     if (!this.electronSource) {
       delete evt.sources.electron
     }
+    const probes = [...this.probes.values()].flatMap(({ snapshot }) =>
+      snapshot ? [snapshot] : []
+    )
+    if (probes.length) {
+      evt.sources.probes = Object.fromEntries(
+        probes.map((snapshot) => [snapshot.provider, snapshot])
+      )
+    }
     if (this.cfg.includeMetricsInEvents) {
       evt.metrics = this.getMetrics()
     }
@@ -653,7 +837,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
   private transitionStatusInternal(
     newStatus: NetworkStatus,
     compositeReason: string,
-    dominance: 'browser' | 'electron' | 'merged'
+    dominance: string
   ): void {
     const prev = this.currentStatus
     this.metrics.prevStatusDurationMs = this.metrics.currentStatusDurationMs
@@ -664,14 +848,12 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     if (newStatus !== prev) {
       this.retryIndex = 0
     }
+    this.onlineSinceTs = newStatus === 'online' ? now : undefined
+    this.offlineSinceTs = newStatus === 'offline' ? now : undefined
+    this.limitedSinceTs = newStatus === 'limited' ? now : undefined
     if (newStatus === 'online') {
-      this.onlineSinceTs = now
-      this.offlineSinceTs = undefined
       this.consecutiveFailures = 0
       this.metrics.consecutiveFailures = 0
-    } else {
-      this.offlineSinceTs = now
-      this.onlineSinceTs = undefined
     }
     this.registerFlap(now)
     this.metrics.providerDominance = dominance
@@ -783,8 +965,10 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     }
     this.metrics.totalChecks++
 
+    const probes = this.runProbes()
     const urls = this.prepareUrlList()
     let lastError: InternalCheckResult | undefined
+    let unverified: InternalCheckResult | undefined
     let success: InternalCheckResult | undefined
 
     for (const url of urls) {
@@ -793,13 +977,20 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
       if (res.ok) {
         success = res
         break
-      } else {
-        lastError = res
       }
+      lastError = res
+      // Portal tüm istekleri yakaladığından diğer URL'ler denenmez
+      if (res.errorKind === 'captive-portal') break
+      if (res.errorKind === 'unverified') unverified ??= res
     }
 
+    await probes
     if (success) {
       this.handleSuccess(success)
+    } else if (lastError?.errorKind === 'captive-portal') {
+      this.handleLimited(lastError)
+    } else if (unverified) {
+      this.handleLimited(unverified)
     } else {
       this.handleFail(lastError)
       await this.maybeRetry(manual)
@@ -855,14 +1046,61 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     }
     this.currentInterval = this.cfg.baseIntervalMs
     this.metrics.currentIntervalMs = this.currentInterval
+    this.metrics.captivePortalSuspected = false
     this.browserSource = {
       status: 'online',
       timestamp: now,
       provider: 'browser'
     }
+    if (result.errorKind === 'cors') {
+      this.emitErrorEvent({
+        error: result.error,
+        attempt: 1,
+        isFinal: false,
+        reason: 'check:cors',
+        kind: 'cors',
+        urlTried: result.url
+      })
+    }
     this.composeAndMaybeEmit('check:success')
   }
 
+  /**
+   * Captive portal'da veya yanıt doğrulanamadığında (unverified) retry
+   * yapılmaz; kullanıcı giriş yapınca hemen fark edilsin diye taban
+   * aralıkla check sürer.
+   */
+  private handleLimited(result: InternalCheckResult): void {
+    const now = this.now()
+    const kind = result.errorKind as 'captive-portal' | 'unverified'
+    this.metrics.failedChecks++
+    this.metrics.lastFailureTs = now
+    if (kind === 'captive-portal') {
+      this.metrics.captivePortalSuspected = true
+      this.metrics.lastCaptivePortalTs = now
+    }
+    this.consecutiveFailures = 0
+    this.metrics.consecutiveFailures = 0
+    this.currentInterval = this.cfg.baseIntervalMs
+    this.metrics.currentIntervalMs = this.currentInterval
+    this.browserSource = {
+      status: 'limited',
+      timestamp: now,
+      provider: 'browser',
+      reason: kind
+    }
+    this.emitErrorEvent({
+      error: result.error,
+      attempt: 1,
+      isFinal: false,
+      reason: `check:${kind}`,
+      kind,
+      httpStatus: result.statusCode,
+      urlTried: result.url
+    })
+    this.composeAndMaybeEmit(`check:${kind}`)
+  }
+
   private handleFail(result?: InternalCheckResult): void {
     const now = this.now()
     this.metrics.failedChecks++
@@ -896,9 +1134,9 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
 
   private async tryUrl(url: string): Promise<InternalCheckResult> {
     const full = this.appendHealthPath(url)
-    if (this.cfg.preferHead) {
+    if (this.cfg.preferHead && this.cfg.expectedBody == null) {
       const head = await this.fetchWithTiming(full, 'HEAD')
-      if (head.ok) return head
+      if (head.ok || head.errorKind === 'captive-portal') return head
     }
     return this.fetchWithTiming(full, 'GET')
   }
@@ -925,10 +1163,22 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
         headers: method === 'GET' ? { Accept: 'text/plain' } : undefined
       })
       const rtt = this.now() - started
-      clearTimeout(timer)
       if (resp.type === 'opaque' || resp.type === 'opaqueredirect') {
+        clearTimeout(timer)
         return { ok: true, url: finalUrl, rttMs: rtt }
       }
+      const portal = await this.detectCaptivePortal(finalUrl, resp, method)
+      clearTimeout(timer)
+      if (portal) {
+        return {
+          ok: false,
+          url: finalUrl,
+          rttMs: rtt,
+          statusCode: resp.status,
+          error: new Error(portal),
+          errorKind: 'captive-portal'
+        }
+      }
       if (resp.ok) {
         return { ok: true, url: finalUrl, rttMs: rtt, statusCode: resp.status }
       }
@@ -941,15 +1191,91 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
         errorKind: 'http-error'
       }
     } catch (err: any) {
+      const errorKind = classifyError(err)
+      const reachable =
+        errorKind === 'network-error' &&
+        (await this.isReachableWithoutCors(finalUrl, method, controller))
       clearTimeout(timer)
       const rtt = this.now() - started
-      return {
-        ok: false,
-        url: finalUrl,
-        rttMs: rtt,
-        error: err,
-        errorKind: classifyError(err)
+      // Opak yanıtta status, gövde ve yönlendirme okunamaz; başka origin'e
+      // yönlendiren portal da CORS hatası ve opak yanıt verdiğinden
+      // doğrulama isteniyorsa host online sayılmaz
+      if (reachable && this.needsVerifiedResponse()) {
+        return {
+          ok: false,
+          url: finalUrl,
+          rttMs: rtt,
+          error: new Error('Health response could not be verified'),
+          errorKind: 'unverified'
+        }
+      }
+      if (reachable) {
+        return {
+          ok: true,
+          url: finalUrl,
+          rttMs: rtt,
+          error: err,
+          errorKind: 'cors'
+        }
       }
+      return { ok: false, url: finalUrl, rttMs: rtt, error: err, errorKind }
+    }
+  }
+
+  /**
+   * Beklenen status/gövde tutmuyorsa veya istek başka origin'e yönlendiyse
+   * nedeni döner. Portal'lar genelde 200 ile giriş sayfası döndürdüğü için
+   * yalnızca HTTP hatası olmayan yanıtlar gövde açısından incelenir.
+   */
+  private async detectCaptivePortal(
+    url: string,
+    resp: Response,
+    method: 'HEAD' | 'GET'
+  ): Promise<string | undefined> {
+    if (this.cfg.detectRedirects && isUnexpectedRedirect(url, resp)) {
+      return `Unexpected redirect to ${resp.url}`
+    }
+    const { expectedStatus, expectedBody } = this.cfg
+    if (expectedStatus != null && resp.status !== expectedStatus) {
+      return resp.ok
+        ? `Expected HTTP ${expectedStatus}, got ${resp.status}`
+        : undefined
+    }
+    if (expectedBody != null && method === 'GET' && resp.ok) {
+      const body = await resp.text().catch(() => '')
+      if (!body.includes(expectedBody)) return 'Unexpected health body'
+    }
+    return undefined
+  }
+
+  private needsVerifiedResponse(): boolean {
+    return (
+      this.cfg.detectRedirects ||
+      this.cfg.expectedStatus != null ||
+      this.cfg.expectedBody != null
+    )
+  }
+
+  /**
+   * Tarayıcı CORS reddini genel ağ hatası olarak verir; aynı adrese
+   * no-cors istek opak yanıt alıyorsa host erişilebilirdir.
+   */
+  private async isReachableWithoutCors(
+    url: string,
+    method: 'HEAD' | 'GET',
+    controller: AbortController
+  ): Promise<boolean> {
+    if (controller.signal.aborted) return false
+    try {
+      const resp = await this.fetchFn(url, {
+        method,
+        cache: 'no-store',
+        mode: 'no-cors',
+        signal: controller.signal
+      })
+      return resp.type === 'opaque'
+    } catch {
+      return false
     }
   }
 
@@ -1001,6 +1327,8 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     const delta = now - this.statusLastChangedTs
     if (this.currentStatus === 'online') {
       this.metrics.totalOnlineDurationMs += delta
+    } else if (this.currentStatus === 'limited') {
+      this.metrics.totalLimitedDurationMs += delta
     } else {
       this.metrics.totalOfflineDurationMs += delta
     }
@@ -1008,6 +1336,7 @@ export class NetworkChangeDetector implements INetworkChangeDetector {
     this.metrics.statusLastChangedTs = this.statusLastChangedTs
     this.metrics.onlineSinceTs = this.onlineSinceTs
     this.metrics.offlineSinceTs = this.offlineSinceTs
+    this.metrics.limitedSinceTs = this.limitedSinceTs
   }
 
   // ---------------- Network Info ----------------
@@ -0,0 +1,143 @@
+import { filter, map, Observable } from 'rxjs'
+
+import type { IAuthManager, SessionContext } from '../Authentication'
+
+import { cacheBuster } from './helpers'
+import type {
+  ImageBeaconConfig,
+  NetworkProbe,
+  NetworkProbeContext,
+  NetworkProbeResult
+} from './types'
+
+/**
+ * Kapanan soket bağlantının koptuğunu kanıtlamaz (sunucu yeniden
+ * başlatması vb.); bu yüzden offline oyu bu güvenle verilir
+ */
+const CLOSED_SOCKET_CONFIDENCE = 0.5
+
+/**
+ * Resim yükleme hatası 404 veya resim olmayan yanıtta da tetiklenir
+ */
+const BEACON_OFFLINE_CONFIDENCE = 0.6
+
+export const IMAGE_BEACON_PROBE_PREFIX = 'beacon:'
+
+/**
+ * CORS başlığı vermeyen host'lara erişimi <img> yükleyerek ölçer; URL bir
+ * resme (ör. favicon) işaret etmelidir.
+ */
+export class ImageBeaconProbe implements NetworkProbe {
+  public readonly name: string
+  public readonly weight: number
+
+  constructor(private readonly beacon: ImageBeaconConfig) {
+    this.name = `${IMAGE_BEACON_PROBE_PREFIX}${beacon.url}`
+    this.weight = beacon.weight ?? 0.5
+  }
+
+  public check({
+    timeoutMs
+  }: NetworkProbeContext): Promise<NetworkProbeResult> {
+    return new Promise((resolve) => {
+      const started = Date.now()
+      const image = new Image()
+      const finish = (loaded: boolean, reason: string) => {
+        clearTimeout(timer)
+        image.onload = image.onerror = null
+        resolve({
+          status: loaded ? 'online' : 'offline',
+          confidence: loaded ? 1 : BEACON_OFFLINE_CONFIDENCE,
+          rttMs: Date.now() - started,
+          reason
+        })
+      }
+      const timer = setTimeout(() => finish(false, 'timeout'), timeoutMs)
+      image.onload = () => finish(true, 'load')
+      image.onerror = () => finish(false, 'error')
+      image.src = cacheBuster(this.beacon.url)
+    })
+  }
+}
+
+/**
+ * AuthManager WebSocket'inin canlılığını pong'lardan izler. Bağlantı
+ * bilerek kapatıldığında oy geri çekilir; yeniden bağlanma denemeleri
+ * son sonucu değiştirmez.
+ */
+export class AuthSocketProbe implements NetworkProbe {
+  public readonly name = 'auth-socket'
+  public readonly results$: Observable<NetworkProbeResult | null>
+
+  constructor(
+    authManager: Pick<IAuthManager, 'sessionInfo$'>,
+    public readonly weight: number = 1
+  ) {
+    this.results$ = authManager.sessionInfo$.pipe(
+      map(toSocketResult),
+      filter(
+        (result): result is NetworkProbeResult | null => result !== undefined
+      )
+    )
+  }
+}
+
+/**
+ * @returns undefined when the update does not change the socket state
+ */
+function toSocketResult({
+  lastReason,
+  lastUpdate
+}: SessionContext): NetworkProbeResult | null | undefined {
+  switch (lastReason) {
+    case 'INIT_MESSAGE_SENT':
+    case 'RECONNECT_MESSAGE_SENT':
+    case 'PONG_RECEIVED':
+      return { status: 'online', timestamp: lastUpdate, reason: lastReason }
+    case 'PING_TIMEOUT':
+      return { status: 'offline', timestamp: lastUpdate, reason: lastReason }
+    case 'SOCKET_CLOSE':
+      return {
+        status: 'offline',
+        confidence: CLOSED_SOCKET_CONFIDENCE,
+        timestamp: lastUpdate,
+        reason: lastReason
+      }
+    case 'MANUAL_CLOSE':
+    case 'STATUS_RESET':
+    case 'CLEANUP':
+      return null
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Uzun ömürlü bir soketin (ör. XMPP) readyState'ini her health check
+ * turunda okur. Bağlanırken veya soket yokken oy kullanmaz. Bu depoda
+ * XMPP istemcisi olmadığından otomatik kaydedilmez; soketi açan modül
+ * detector.addProbe(new SocketStateProbe('xmpp', () => socket)) ile ekler.
+ */
+export class SocketStateProbe implements NetworkProbe {
+  constructor(
+    public readonly name: string,
+    private readonly getSocket: () => Pick<WebSocket, 'readyState'> | null,
+    public readonly weight: number = 1
+  ) {}
+
+  public async check(): Promise<NetworkProbeResult | null> {
+    switch (this.getSocket()?.readyState) {
+      case WebSocket.OPEN:
+        return { status: 'online', reason: 'open' }
+      case WebSocket.CLOSING:
+      case WebSocket.CLOSED:
+        return {
+          status: 'offline',
+          confidence: CLOSED_SOCKET_CONFIDENCE,
+          reason: 'closed'
+        }
+      default:
+        return null
+    }
+  }
+}
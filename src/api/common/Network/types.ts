@@ -7,7 +7,10 @@ import { IServiceWrapper } from '@bipweb/core'
  * Temel network türleri.
  */
 export type NetworkType = 'wifi' | 'cellular' | 'ethernet' | 'unknown'
-export type NetworkStatus = 'online' | 'offline'
+/**
+ * limited: ağ var fakat internete erişim kısıtlı (ör. captive portal).
+ */
+export type NetworkStatus = 'online' | 'offline' | 'limited'
 
 /**
  * Tarayıcı NetworkInformation API verilerinin normalize edilmiş sürümü.
@@ -49,13 +52,22 @@ export interface ElectronNetworkAugmentedInfo {
 }
 
 /**
- * Hata türü sınıflandırması.
+ * Hata türü sınıflandırması. dns ve tls yalnızca platform hata mesajında
+ * veya cause.code'da ayırt edilebildiğinde verilir; cors'ta host erişilebilir
+ * olduğu için check başarılı sayılır. detectRedirects açıkken veya
+ * expectedStatus/expectedBody tanımlıyken yalnızca opak yanıt alınan check
+ * unverified olur ve captive portal gibi limited sayılır.
  */
 export type NetworkErrorKind =
   | 'timeout'
   | 'abort'
   | 'http-error'
   | 'network-error'
+  | 'dns'
+  | 'tls'
+  | 'cors'
+  | 'captive-portal'
+  | 'unverified'
   | 'skipped-rate-limit'
   | 'unreachable'
   | 'other'
@@ -75,13 +87,75 @@ export interface NetworkErrorEvent {
 }
 
 /**
- * Kaynak (browser/electron) snapshot'ı.
+ * Kaynak (browser/electron/probe) snapshot'ı.
  */
 export interface SourceStatusSnapshot {
   status: NetworkStatus
   timestamp: number
   confidence?: number
   provider?: 'browser' | 'electron' | string
+  /**
+   * Weight of the source in the composite merge (default 1)
+   */
+  weight?: number
+  rttMs?: number
+  reason?: string
+}
+
+/**
+ * Composite birleşime katılan tek probe ölçümü.
+ */
+export interface NetworkProbeResult {
+  status: NetworkStatus
+  /**
+   * How certain the probe is about the status, 0-1 (default 1)
+   */
+  confidence?: number
+  rttMs?: number
+  /**
+   * Defaults to the time the result was received
+   */
+  timestamp?: number
+  reason?: string
+}
+
+export interface NetworkProbeContext {
+  timeoutMs: number
+  fetchFn: typeof fetch
+}
+
+/**
+ * Health check'e ek bağlantı kaynağı. check() her health check turunda
+ * çağrılır, results$ ise kendi olaylarıyla sonuç yayar; ikisinden en az
+ * biri verilmelidir. null sonuç probe'un oy kullanmadığını belirtir.
+ */
+export interface NetworkProbe {
+  /**
+   * Unique name; 'browser' and 'electron' are reserved
+   */
+  readonly name: string
+  /**
+   * Weight of the probe in the composite merge (default 1)
+   */
+  readonly weight?: number
+  /**
+   * Results older than this are ignored by the merge
+   */
+  readonly maxAgeMs?: number
+  check?(context: NetworkProbeContext): Promise<NetworkProbeResult | null>
+  readonly results$?: Observable<NetworkProbeResult | null>
+}
+
+/**
+ * Eşit ağırlıkta anlaşmazlıkta conservative offline, optimistic online seçer.
+ * conservative ayrıca browser veya Electron offline bildirdiğinde probe
+ * oylarına bakmadan offline seçer.
+ */
+export type NetworkMergeStrategy = 'conservative' | 'optimistic'
+
+export interface ImageBeaconConfig {
+  url: string
+  weight?: number
 }
 
 /**
@@ -99,6 +173,7 @@ export interface NetworkMetrics {
   lastFailureTs?: number
   totalOnlineDurationMs: number
   totalOfflineDurationMs: number
+  totalLimitedDurationMs: number
   currentStatusDurationMs: number
   prevStatusDurationMs: number
   statusLastChangedTs: number
@@ -111,12 +186,21 @@ export interface NetworkMetrics {
   isFlapping: boolean
   onlineSinceTs?: number
   offlineSinceTs?: number
+  limitedSinceTs?: number
+  /**
+   * Browser health check'i veya Electron'un augmented bilgisi belirler
+   */
+  captivePortalSuspected: boolean
+  lastCaptivePortalTs?: number
   electronUpdateCount: number
   lastElectronUpdateTs?: number
   lastElectronLatencyMs?: number
   electronOfflineConfidence?: number
   electronOnlineConfidence?: number
-  providerDominance?: 'browser' | 'electron' | 'merged'
+  /**
+   * Name of the only source on the winning side, or 'merged'
+   */
+  providerDominance?: string
 }
 
 /**
@@ -137,6 +221,7 @@ export interface NetworkChangeEvent {
     electron?: SourceStatusSnapshot & {
       augmented?: ElectronNetworkAugmentedInfo
     }
+    probes?: Record<string, SourceStatusSnapshot>
   }
   compositeStatusReason: string
 }
@@ -163,6 +248,9 @@ export interface InternalCheckResult {
   rttMs?: number
   statusCode?: number
   error?: unknown
+  /**
+   * ok iken yalnızca 'cors' olabilir (host erişilebilir, yanıt okunamadı)
+   */
   errorKind?: NetworkErrorKind
 }
 
@@ -171,12 +259,12 @@ export interface InternalCheckResult {
  */
 export interface ElectronIntegrationConfig {
   enabled?: boolean
-  providerPrecedence?: 'electron-first' | 'browser-first' | 'merge'
-  strategy?: 'conservative' | 'optimistic'
+  /**
+   * Weight of the Electron provider in the composite merge (default 1)
+   */
+  weight?: number
   publishChannel?: string
   requestChannel?: string
-  overrideOfflineConfidenceThreshold?: number
-  overrideOnlineConfidenceThreshold?: number
 }
 
 /**
@@ -202,11 +290,38 @@ export interface NetworkChangeDetectorConfig {
   offlineInitialIntervalMultiplier?: number
   includeMetricsInEvents?: boolean
   ewmaAlpha?: number
+  /**
+   * Health yanıtının beklenen HTTP status'u (ör. 204); farklı status
+   * captive portal şüphesi doğurur. Opak (no-cors) yanıtlarda doğrulanamaz.
+   */
+  expectedStatus?: number
+  /**
+   * Health yanıtının içermesi gereken metin; verilirse HEAD atlanır.
+   */
+  expectedBody?: string
+  /**
+   * Başka origin'e yönlenen health isteğini captive portal sayar
+   * (varsayılan true). Yönlendirme opak (no-cors) yanıtta görülemediğinden
+   * açıkken yalnızca opak yanıt alınan check unverified olur.
+   */
+  detectRedirects?: boolean
   autoStart?: boolean
   fetchFn?: typeof fetch
   timeProvider?: () => number
   onlineAccelerationFactor?: number
   electronIntegration?: ElectronIntegrationConfig
+  /**
+   * Browser, Electron ve probe kaynaklarının birleşim kuralı.
+   */
+  mergeStrategy?: NetworkMergeStrategy
+  /**
+   * configure() sırasında eklenen probe'lar.
+   */
+  probes?: NetworkProbe[]
+  /**
+   * Her URL için bir ImageBeaconProbe eklenir (CORS başlığı vermeyen host'lar).
+   */
+  imageBeacons?: ImageBeaconConfig[]
   /**
    * Status değişmemiş olsa bile (browser/electron update vs) event üret.
    * Varsayılan false (yalnızca status değişince event).
@@ -223,9 +338,35 @@ export interface NetworkChangeDetectorConfig {
   logger?: Logger<ILogObj>
 }
 
+/**
+ * Servis çalışırken updateConfig ile değiştirilebilen alanlar.
+ */
+export type NetworkChangeDetectorRuntimeConfig = Partial<
+  Pick<
+    NetworkChangeDetectorConfig,
+    | 'primaryUrl'
+    | 'checkUrls'
+    | 'healthPath'
+    | 'baseIntervalMs'
+    | 'maxIntervalMs'
+    | 'requestTimeoutMs'
+    | 'maxChecksPerHour'
+    | 'mergeStrategy'
+    | 'imageBeacons'
+    | 'expectedStatus'
+    | 'expectedBody'
+    | 'detectRedirects'
+  >
+>
+
 export interface INetworkChangeDetector extends IServiceWrapper {
   configure(config: NetworkChangeDetectorConfig): void
 
+  /**
+   * Çalışırken URL ve aralık ayarlarını günceller.
+   */
+  updateConfig(config: NetworkChangeDetectorRuntimeConfig): void
+
   /**
    * Servisi başlatır.
    */
@@ -236,6 +377,11 @@ export interface INetworkChangeDetector extends IServiceWrapper {
    */
   stop(): void
 
+  /**
+   * ServiceContainer kapanışında çağrılır (stop ile eşdeğer).
+   */
+  dispose(): void
+
   /**
    * Sağlık check döngüsünü geçici duraklatır (manual checkNow yine çalışır).
    */
@@ -288,6 +434,17 @@ export interface INetworkChangeDetector extends IServiceWrapper {
    */
   simulateElectronUpdate(update: ExternalProviderUpdate): void
 
+  /**
+   * Probe'u composite birleşime ekler.
+   * @throws Error if the name is reserved or already registered
+   */
+  addProbe(probe: NetworkProbe): void
+
+  /**
+   * @returns false if no probe has the name
+   */
+  removeProbe(name: string): boolean
+
   /**
    * Metrikleri resetler. Varsayılan davranış: her şeyi sıfırla fakat
    * current status süre ölçerleri yeniden başlatılır.
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+
+import type { ConfigNamespaceDefinition } from '../Config'
+
+/**
+ * ConfigurationService'teki `tasks` namespace'i; verilmeyen alanlarda
+ * TaskManager varsayılanları geçerlidir.
+ */
+export const tasksConfigSchema = z.object({
+  runHistoryLimit: z
+    .number({ description: 'Runs kept per task for metrics' })
+    .int()
+    .min(1)
+    .optional(),
+  manualTriggerRateLimitMs: z
+    .number({ description: 'Minimum gap between manual triggers (ms)' })
+    .int()
+    .min(0)
+    .optional(),
+  defaultTimeoutMs: z
+    .number({ description: 'Timeout of a task run without its own (ms)' })
+    .int()
+    .min(1)
+    .optional(),
+  percentiles: z
+    .array(z.number().gt(0).lt(1), {
+      description: 'Duration percentiles reported in metrics'
+    })
+    .optional(),
+  useWorker: z
+    .boolean({ description: 'Run the cron scheduler in a web worker' })
+    .optional(),
+  workerBatching: z
+    .object(
+      {
+        enabled: z.boolean().optional(),
+        flushIntervalMs: z.number().int().min(0).optional(),
+        maxBatchSize: z.number().int().min(1).optional()
+      },
+      { description: 'Batching of scheduler worker messages' }
+    )
+    .optional(),
+  initialActive: z
+    .boolean({ description: 'Start in the active (not idle) state' })
+    .optional()
+})
+
+export type TasksConfigNamespace = z.infer<typeof tasksConfigSchema>
+
+declare module '../Config/types' {
+  interface ConfigNamespaces {
+    tasks: TasksConfigNamespace
+  }
+}
+
+export const tasksConfigNamespace: ConfigNamespaceDefinition<'tasks'> = {
+  name: 'tasks',
+  schema: tasksConfigSchema
+}
@@ -1,3 +1,4 @@
+export * from './config-schema'
 export * from './task-manager'
 export * from './task-types'
 /*
@@ -1,9 +1,11 @@
 import { Cron } from 'croner'
-import { Subject } from 'rxjs'
+import { Subject, Subscription } from 'rxjs'
 import { inject, singleton } from 'tsyringe'
 
 import { type ILogService, LogLevel } from '@bipweb/common'
-import { dependsOn } from '@bipweb/core'
+import { dependsOn, optionalDependency } from '@bipweb/core'
+
+import { CommonTokens } from '../tokens'
 
 import { Task } from './task'
 import {
@@ -44,7 +46,10 @@ const DEFAULT_CFG: Required<
   defaultTimeoutMs: 30_000
 }
 
-@dependsOn('LogService')
+@dependsOn(
+  CommonTokens.LogService,
+  optionalDependency(CommonTokens.ConfigurationService)
+)
 @singleton()
 export class TaskManager implements ITaskManager {
   public isInitialized: boolean = false
@@ -62,11 +67,14 @@ export class TaskManager implements ITaskManager {
   private lastGlobalEventAt: Date | null = null
   private inlineSchedulers = new Map<string, InlineScheduler>()
   private globalSubject = new Subject<TaskEventPayload>()
+  private eventsSub?: Subscription
   private globalCache: GlobalMetrics | null = null
   private dirtyGlobal = true
   private workerFactory?: (() => Worker) | undefined
 
-  constructor(@inject('LogService') private logger: ILogService<any>) {
+  constructor(
+    @inject(CommonTokens.LogService) private logger: ILogService<any>
+  ) {
     this._logger = this.logger.create({
       name: this._name
     })
@@ -82,7 +90,14 @@ export class TaskManager implements ITaskManager {
   }
 
   public configure(config: TaskManagerConfig): void {
-    this.config = { ...DEFAULT_CFG, ...config }
+    this.config = {
+      ...DEFAULT_CFG,
+      ...config,
+      workerBatching: {
+        ...DEFAULT_CFG.workerBatching,
+        ...config.workerBatching
+      }
+    }
 
     // if (config.logger) {
     //   this.logger = config.logger
@@ -113,7 +128,8 @@ export class TaskManager implements ITaskManager {
       this._logger.info('Başlangıç durumu: idle')
     }
 
-    this.getEvents$().subscribe((e) => {
+    this.eventsSub?.unsubscribe()
+    this.eventsSub = this.getEvents$().subscribe((e) => {
       this.lastGlobalEventAt = e.timestamp
       this.dirtyGlobal = true
       this.logEvent(e)
@@ -355,11 +371,19 @@ export class TaskManager implements ITaskManager {
     this.worker = null
     this.inlineSchedulers.forEach((s) => s.cron.stop())
     this.inlineSchedulers.clear()
+    this.tasks.forEach((t) => t.markRemoved(true))
     this.tasks.clear()
     this.pauseTimestamps.clear()
     this._logger.info('Shutdown tamamlandı.')
   }
 
+  dispose() {
+    this.shutdown()
+    this.eventsSub?.unsubscribe()
+    this.eventsSub = undefined
+    this.globalSubject.complete()
+  }
+
   // ---- Worker Handling ----
   private initWorker(): Worker | null {
     if (this.workerFactory) {
@@ -407,6 +431,7 @@ export class TaskManager implements ITaskManager {
   private logEvent(e: TaskEventPayload) {
     const lvl = this.logger.settings.minLevel
     if (lvl === LogLevel.SILENT) return
+    const logger = this._logger.withCorrelation(e.correlationId)
 
     const type = e.eventType
 
@@ -429,35 +454,35 @@ export class TaskManager implements ITaskManager {
       `${type} task=${e.taskId}${e.runId !== undefined ? ' run=' + e.runId : ''}${e.durationMs != null ? ' dur=' + e.durationMs + 'ms' : ''}`
 
     if (errorEvents.includes(type)) {
-      this._logger.error(baseMsg(), e.error?.message)
-      if (lvl === LogLevel.TRACE) this._logger.trace('payload', this.compact(e))
+      logger.error(baseMsg(), e.error?.message)
+      if (lvl === LogLevel.TRACE) logger.trace('payload', this.compact(e))
       return
     }
     if (lvl === LogLevel.ERROR) return
 
     if (warnExtra.includes(type)) {
-      this._logger.warn(baseMsg())
-      if (lvl === LogLevel.TRACE) this._logger.trace('payload', this.compact(e))
+      logger.warn(baseMsg())
+      if (lvl === LogLevel.TRACE) logger.trace('payload', this.compact(e))
       return
     }
     if (lvl === LogLevel.WARN) return
 
     if (infoSet.includes(type)) {
-      this._logger.info(baseMsg())
-      if (lvl === LogLevel.TRACE) this._logger.trace('payload', this.compact(e))
+      logger.info(baseMsg())
+      if (lvl === LogLevel.TRACE) logger.trace('payload', this.compact(e))
       return
     }
     if (lvl === LogLevel.INFO) return
 
     if (overlapSet.includes(type)) {
-      this._logger.debug(baseMsg())
-      if (lvl === LogLevel.TRACE) this._logger.trace('payload', this.compact(e))
+      logger.debug(baseMsg())
+      if (lvl === LogLevel.TRACE) logger.trace('payload', this.compact(e))
       return
     }
     if (lvl === LogLevel.DEBUG) {
-      this._logger.debug(baseMsg())
+      logger.debug(baseMsg())
     } else if (lvl === LogLevel.TRACE) {
-      this._logger.trace(baseMsg(), this.compact(e))
+      logger.trace(baseMsg(), this.compact(e))
     }
   }
 
@@ -2,6 +2,8 @@ import { ILogObj, ISettingsParam, Logger } from 'tslog'
 
 import { IServiceWrapper } from '@bipweb/core'
 
+import type { Task } from './task'
+
 export type OverlapPolicy = 'parallel' | 'queue'
 
 export interface WorkerBatchingConfig {
@@ -29,6 +31,14 @@ export interface TaskManagerConfig {
 
 export interface ITaskManager extends IServiceWrapper {
   configure(config: TaskManagerConfig): void
+
+  addTask(config: TaskConfig, callback: TaskCallback): Task
+
+  removeTask(taskOrId: string | Task, forceCancel?: boolean): boolean
+
+  shutdown(): void
+
+  dispose(): void
 }
 
 export interface TaskConfig {
@@ -51,6 +61,11 @@ export interface TaskRunContext {
   triggerType: 'cron' | 'manual'
   overlapPolicy: OverlapPolicy
   timeoutMs?: number
+  /**
+   * Run'ın akış kimliği; callback logları logService.withCorrelation(id)
+   * ile, run dışına (ör. HTTP isteklerine) taşınarak ilişkilendirilebilir
+   */
+  correlationId: string
   isAborted: () => boolean
 }
 
@@ -77,6 +92,7 @@ export interface RunHistoryEntry {
   skipReason?: string
   overlapPolicyUsed?: OverlapPolicy
   timestamp: Date
+  correlationId?: string
 }
 
 export interface TaskMetrics {
@@ -156,6 +172,7 @@ export interface TaskEventPayload {
   overlapPolicy?: OverlapPolicy
   timeoutMs?: number
   activeConcurrentRuns?: number
+  correlationId?: string
 }
 
 export interface ManualTriggerResult {
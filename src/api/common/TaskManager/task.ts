@@ -1,5 +1,7 @@
 import { Subject } from 'rxjs'
 
+import { createCorrelationId } from '../Logger/logContext'
+
 import { P2QuantileEstimator } from './quantiles'
 import {
   ManualTriggerResult,
@@ -373,6 +375,7 @@ export class Task {
   ) {
     if (this.removed) return
     const runId = ++this.runIdSeq
+    const correlationId = createCorrelationId()
     const start = new Date()
     const controller = new AbortController()
     const timeoutMs = this.config.timeoutMs
@@ -397,6 +400,7 @@ export class Task {
       triggerType,
       overlapPolicy,
       timeoutMs,
+      correlationId,
       isAborted: () => controller.signal.aborted
     }
 
@@ -414,7 +418,8 @@ export class Task {
       durationMs: null,
       driftMs,
       timestamp: new Date(),
-      overlapPolicyUsed: overlapPolicy
+      overlapPolicyUsed: overlapPolicy,
+      correlationId
     })
 
     this.emitEvent({
@@ -423,6 +428,7 @@ export class Task {
       taskName: this.metrics.name,
       timestamp: new Date(),
       runId,
+      correlationId,
       scheduledTime,
       actualStartTime: start,
       driftMs,
@@ -452,6 +458,7 @@ export class Task {
             taskName: this.metrics.name,
             timestamp: new Date(),
             runId,
+            correlationId,
             scheduledTime,
             actualStartTime: start,
             driftMs,
@@ -549,6 +556,7 @@ export class Task {
 
     // Update metrics
     this.updateMetricsOnFinish(runId)
+    const correlationId = this.history.find(runId)?.correlationId
 
     if (status === 'success') {
       this.emitEvent({
@@ -557,6 +565,7 @@ export class Task {
         taskName: this.metrics.name,
         timestamp: new Date(),
         runId,
+        correlationId,
         scheduledTime: meta.scheduledTime,
         actualStartTime: meta.actualStartTime,
         durationMs: this.history.find(runId)?.durationMs ?? null,
@@ -572,6 +581,7 @@ export class Task {
         taskName: this.metrics.name,
         timestamp: new Date(),
         runId,
+        correlationId,
         scheduledTime: meta.scheduledTime,
         actualStartTime: meta.actualStartTime,
         durationMs: this.history.find(runId)?.durationMs ?? null,
@@ -589,6 +599,7 @@ export class Task {
       taskName: this.metrics.name,
       timestamp: new Date(),
       runId,
+      correlationId,
       scheduledTime: meta.scheduledTime,
       actualStartTime: meta.actualStartTime,
       durationMs: this.history.find(runId)?.durationMs ?? null,
@@ -1,85 +1,399 @@
-import { QueryClient } from '@tanstack/react-query'
+import { QueryClient, type QueryClientConfig } from '@tanstack/react-query'
+import {
+  combineLatest,
+  distinctUntilChanged,
+  map,
+  type Observable,
+  of,
+  skip,
+  Subscription
+} from 'rxjs'
 
-import { type IServiceContainer } from '@bipweb/core'
+import type {
+  IAppModule,
+  IServiceContainer,
+  ModuleRegistrar,
+  ServiceConfig,
+  ServiceToken
+} from '@bipweb/core'
 
 import { environment } from '../../environments'
 
-import { ActivityMonitor, type IActivityMonitor } from './ActivityMonitor'
-import { AuthManager, type IAuthManager } from './Authentication'
-import { ConfigurationService, type IConfigurationService } from './Config'
-import { type ILogService, LogLevel, logService } from './Logger'
-import { type INetworkChangeDetector, NetworkChangeDetector } from './Network'
+import { ActivityMonitor } from './ActivityMonitor'
+import { AuthManager, type AuthManagerRuntimeConfig } from './Authentication'
+import {
+  type ConfigLayerValues,
+  type ConfigNamespaceName,
+  type ConfigNamespaces,
+  ConfigurationService,
+  type IConfigurationService
+} from './Config'
+import { COMMON_CONFIG_NAMESPACES } from './configNamespaces'
+import { FeatureFlagService, type FeatureFlagSource } from './FeatureFlags'
+import {
+  HttpBatchTransport,
+  logContext,
+  type LoggingConfigNamespace,
+  LogLevel,
+  logService
+} from './Logger'
+import {
+  AuthSocketProbe,
+  type INetworkChangeDetector,
+  NetworkChangeDetector
+} from './Network'
 import { type ITaskManager, TaskManager } from './TaskManager'
+import { CommonTokens } from './tokens'
 
-export class CommonModule {
-  private container: IServiceContainer
+export { COMMON_CONFIG_NAMESPACES, CommonTokens }
 
-  constructor(container: IServiceContainer) {
-    this.container = container
+export interface CommonModuleConfig {
+  /**
+   * Environment katmanı; kök anahtarlar ve namespace alanları
+   * (ör. { network: { baseIntervalMs: 5000 } }) verilebilir.
+   */
+  environment: ConfigLayerValues
+  queryClient: QueryClientConfig
+  /**
+   * Flag tanımlarının kaynağı; verilmezse `flags.url` endpoint'i okunur.
+   * Testlerde staticFlagSource(json) ile yerel tanımlar verilebilir.
+   */
+  featureFlagSource?: FeatureFlagSource
+}
+
+export const DEFAULT_COMMON_MODULE_CONFIG: CommonModuleConfig = {
+  environment,
+  queryClient: {
+    defaultOptions: {
+      queries: {
+        staleTime: 1000 * 60 * 5, // Veriyi 5 dakika boyunca taze kabul et
+        refetchOnWindowFocus: false // Pencereye odaklanınca otomatik yeniden çekme kapalı
+      }
+    }
   }
+}
 
-  public register(): void {
-    this.container.registerInstance<QueryClient>(
-      'QueryClient',
-      new QueryClient({
-        defaultOptions: {
-          queries: {
-            staleTime: 1000 * 60 * 5, // Veriyi 5 dakika boyunca taze kabul et
-            refetchOnWindowFocus: false // Pencereye odaklanınca otomatik yeniden çekme kapalı
-          }
-        }
-      })
+/**
+ * auth namespace'inin çalışırken değiştirilebilen alanları; autoConnect,
+ * persistToken gibi alanlar yalnızca configure()'da okunur.
+ */
+const AUTH_RUNTIME_KEYS = [
+  'maxReconnectAttempts',
+  'baseReconnectDelay',
+  'pingIntervalSec',
+  'pingTimeoutMs',
+  'useCronForPing'
+] as const satisfies (keyof AuthManagerRuntimeConfig)[]
+
+function pickDefined<T extends object, K extends keyof T>(
+  source: T,
+  keys: readonly K[]
+): Partial<Pick<T, K>> {
+  return Object.fromEntries(
+    keys
+      .filter((key) => source[key] !== undefined)
+      .map((key) => [key, source[key]])
+  ) as Partial<Pick<T, K>>
+}
+
+const HTTP_LOG_TRANSPORT = 'http'
+
+/**
+ * logging namespace'i değiştiğinde HTTP transport'u yeniden kurar; eskisi
+ * kaldırılırken kuyruğundaki kayıtları gönderir.
+ */
+function applyHttpLogTransport(
+  logging: LoggingConfigNamespace,
+  network?: INetworkChangeDetector
+): void {
+  logService.removeTransport(HTTP_LOG_TRANSPORT)
+  if (!logging.httpUrl) return
+  logService.addTransport(
+    new HttpBatchTransport({
+      name: HTTP_LOG_TRANSPORT,
+      url: logging.httpUrl,
+      batchSize: logging.httpBatchSize,
+      flushIntervalMs: logging.httpFlushIntervalMs,
+      maxStoredBatches: logging.httpMaxStoredBatches,
+      network
+    }),
+    { minLevel: logging.httpMinLevel }
+  )
+}
+
+/**
+ * Namespace şemasının varsayılanları; ConfigurationService başarısız
+ * olduğunda kullanılır
+ */
+function defaultNamespace<N extends ConfigNamespaceName>(
+  name: N
+): ConfigNamespaces[N] {
+  return COMMON_CONFIG_NAMESPACES.find(
+    (definition) => definition.name === name
+  )!.schema.parse({})
+}
+
+/**
+ * Servis config'ini init anında, önce init edilmiş ConfigurationService'ten
+ * okur; böylece remote/query/user katmanları da configure()'a yansır.
+ * ConfigurationService başarısızsa (optional bağımlılık undefined döner)
+ * namespace şemalarının varsayılanları kullanılır.
+ */
+function fromConfiguration(
+  build: (
+    namespace: <N extends ConfigNamespaceName>(name: N) => ConfigNamespaces[N],
+    configuration?: IConfigurationService
+  ) => Record<string, any>
+): ServiceConfig {
+  return (dependencyContainer) => {
+    const configuration = dependencyContainer.resolve<
+      IConfigurationService | undefined
+    >(CommonTokens.ConfigurationService)
+    return build(
+      (name) => configuration?.getNamespace(name) ?? defaultNamespace(name),
+      configuration
     )
-    this.container.registerDependency<IConfigurationService>(
-      'ConfigurationService',
+  }
+}
+
+export class CommonModule implements IAppModule<CommonModuleConfig> {
+  readonly name = 'CommonModule'
+  readonly exports: ServiceToken<unknown>[] = Object.values(CommonTokens)
+  readonly config: CommonModuleConfig
+  private subscription = new Subscription()
+  private logMaintenance?: { taskManager: ITaskManager; taskId: string }
+
+  constructor(config: Partial<CommonModuleConfig> = {}) {
+    this.config = { ...DEFAULT_COMMON_MODULE_CONFIG, ...config }
+  }
+
+  public register(container: ModuleRegistrar): void {
+    container.registerInstance(
+      CommonTokens.QueryClient,
+      new QueryClient(this.config.queryClient)
+    )
+    container.registerDependency(
+      CommonTokens.ConfigurationService,
       ConfigurationService,
-      environment
+      {
+        environment: this.config.environment,
+        namespaces: COMMON_CONFIG_NAMESPACES
+      }
     )
-    this.container.registerInstance<ILogService<any>>('LogService', logService)
-    this.container.registerDependency<INetworkChangeDetector>(
-      'NetworkChangeDetector',
+    container.registerInstance(CommonTokens.LogService, logService)
+    container.registerDependency(
+      CommonTokens.NetworkChangeDetector,
       NetworkChangeDetector,
-      {
-        primaryUrl: 'https://pweb.bip.com',
-        healthPath: '/health',
-        baseIntervalMs: 8000,
+      fromConfiguration((namespace) => ({
+        ...namespace('network'),
         eventOnUnchangedStatus: true,
         incrementEventOnUnchangedStatus: true,
         includeMetricsInEvents: true,
         logger: logService.create({
           name: 'NetworkChangeDetector'
         })
-      }
+      }))
     )
-    this.container.registerDependency<IActivityMonitor>(
-      'ActivityMonitor',
+    container.registerDependency(
+      CommonTokens.ActivityMonitor,
       ActivityMonitor,
-      {
+      fromConfiguration((namespace) => ({
+        ...namespace('activity'),
         logger: logService.create({
           name: 'ActivityMonitor',
           minLevel: LogLevel.SILENT
         })
-      }
+      }))
     )
-    this.container.registerDependency<ITaskManager>(
-      'TaskManager',
+    container.registerDependency(
+      CommonTokens.TaskManager,
       TaskManager,
-      {
+      fromConfiguration((namespace) => ({
+        ...namespace('tasks'),
         logger: logService.create({
           name: 'TaskManager'
         })
-      }
+      }))
     )
-    this.container.registerDependency<IAuthManager>(
-      'AuthManager',
+    container.registerDependency(
+      CommonTokens.AuthManager,
       AuthManager,
-      {
-        url: environment.authenticationSocketUrl,
-        autoConnect: true,
+      fromConfiguration((namespace, configuration) => ({
+        ...namespace('auth'),
+        url:
+          configuration?.get('authenticationSocketUrl') ??
+          this.config.environment.authenticationSocketUrl,
         logger: logService.create({
           name: 'AuthManager'
         })
-      }
+      }))
+    )
+    container.registerDependency(
+      CommonTokens.FeatureFlags,
+      FeatureFlagService,
+      { source: this.config.featureFlagSource }
+    )
+  }
+
+  /**
+   * ConfigurationService değişikliklerini çalışan servislere aktarır;
+   * Bootstrapper.restart() gerekmeden yeni değerler uygulanır.
+   */
+  public onModuleInit(container: IServiceContainer): void {
+    const failed = new Set(
+      container.getFailedServices().map(({ serviceName }) => serviceName)
+    )
+    // ConfigurationService başarısızsa liderlik, bakım zamanlaması ve log
+    // bağlamı şema varsayılanlarıyla kurulur; config'e bağlı diğer
+    // aboneliklere geçilmez
+    const configuration = failed.has(CommonTokens.ConfigurationService)
+      ? undefined
+      : container.get(CommonTokens.ConfigurationService)
+    const namespace$ = <N extends ConfigNamespaceName>(
+      name: N
+    ): Observable<ConfigNamespaces[N]> =>
+      configuration?.selectNamespace(name) ?? of(defaultNamespace(name))
+
+    const detector = failed.has(CommonTokens.NetworkChangeDetector)
+      ? undefined
+      : container.get(CommonTokens.NetworkChangeDetector)
+
+    // Liderlik, storage aboneliğinin tetiklediği bakımdan önce belirlenir
+    if (!failed.has(CommonTokens.ActivityMonitor)) {
+      const activityMonitor = container.get(CommonTokens.ActivityMonitor)
+      logContext.set({ tabId: activityMonitor.tabId })
+      // Liderlik kapalıysa sekmeler seçim yapamaz; her sekme bakımı yürütür
+      this.subscription.add(
+        combineLatest([activityMonitor.status$, namespace$('activity')])
+          .pipe(
+            map(
+              ([status, activity]) =>
+                !activity.enableLeadership || status.isLeaderTab
+            ),
+            distinctUntilChanged()
+          )
+          .subscribe((leader) => logService.setMaintenanceLeader(leader))
+      )
+    } else {
+      // Liderlik bilinemiyor; bakım bu sekmede yürütülür
+      logService.setMaintenanceLeader(true)
+    }
+
+    if (!failed.has(CommonTokens.TaskManager)) {
+      const taskManager = container.get(CommonTokens.TaskManager)
+      this.subscription.add(
+        namespace$('storage')
+          .pipe(
+            map((storage) => storage.maintenanceCron),
+            distinctUntilChanged()
+          )
+          .subscribe((cron) => this.scheduleLogMaintenance(taskManager, cron))
+      )
+    }
+
+    const authManager = failed.has(CommonTokens.AuthManager)
+      ? undefined
+      : container.get(CommonTokens.AuthManager)
+    if (authManager) {
+      logContext.set({ sessionId: authManager.sessionInfo$.getValue().guid })
+    }
+
+    if (!configuration) return
+
+    this.subscription.add(
+      configuration
+        .selectNamespace('storage')
+        .subscribe((storage) => logService.configureStorage(storage))
+    )
+    this.subscription.add(
+      configuration
+        .selectNamespace('logging')
+        .subscribe((logging) => applyHttpLogTransport(logging, detector))
     )
+    this.subscription.add(
+      configuration
+        .selectNamespace('logPipeline')
+        .subscribe((pipeline) => logService.configurePipeline(pipeline))
+    )
+
+    if (detector) {
+      this.subscription.add(
+        configuration
+          .selectNamespace('network')
+          .pipe(skip(1))
+          .subscribe((network) => detector.updateConfig(network))
+      )
+    }
+
+    if (authManager) {
+      this.subscription.add(
+        combineLatest([
+          configuration.select('authenticationSocketUrl'),
+          configuration.selectNamespace('auth')
+        ])
+          .pipe(skip(1))
+          .subscribe(([url, auth]) =>
+            authManager.updateConfig({
+              url,
+              ...pickDefined(auth, AUTH_RUNTIME_KEYS)
+            })
+          )
+      )
+      if (detector) {
+        this.subscription.add(
+          configuration
+            .selectNamespace('network')
+            .pipe(
+              map((network) => network.authProbeWeight),
+              distinctUntilChanged()
+            )
+            .subscribe((weight) => {
+              const probe = new AuthSocketProbe(authManager, weight)
+              detector.removeProbe(probe.name)
+              if (weight > 0) detector.addProbe(probe)
+            })
+        )
+      }
+    }
+  }
+
+  public onModuleDestroy(): void {
+    logService.removeTransport(HTTP_LOG_TRANSPORT)
+    this.unscheduleLogMaintenance()
+    this.subscription.unsubscribe()
+    this.subscription = new Subscription()
+  }
+
+  /**
+   * Log bakımını (saklama, arşivleme, kota) TaskManager'da zamanlar;
+   * cron değiştiğinde görev yeniden eklenir.
+   */
+  private scheduleLogMaintenance(
+    taskManager: ITaskManager,
+    cron: string
+  ): void {
+    this.unscheduleLogMaintenance()
+    try {
+      const task = taskManager.addTask(
+        {
+          cron,
+          name: 'LogMaintenance',
+          overlapPolicy: 'queue',
+          allowManualTrigger: true
+        },
+        async () => {
+          await logService.runScheduledMaintenance()
+        }
+      )
+      this.logMaintenance = { taskManager, taskId: task.id }
+    } catch (error) {
+      logService.error(`Log maintenance not scheduled for "${cron}"`, error)
+    }
+  }
+
+  private unscheduleLogMaintenance(): void {
+    if (!this.logMaintenance) return
+    this.logMaintenance.taskManager.removeTask(this.logMaintenance.taskId)
+    this.logMaintenance = undefined
   }
 }
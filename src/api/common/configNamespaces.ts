@@ -0,0 +1,27 @@
+import { activityConfigNamespace } from './ActivityMonitor/config-schema'
+import { authConfigNamespace } from './Authentication/configSchema'
+import { flagsConfigNamespace } from './FeatureFlags/configSchema'
+import {
+  loggingConfigNamespace,
+  logPipelineConfigNamespace,
+  storageConfigNamespace
+} from './Logger/configSchema'
+import { networkConfigNamespace } from './Network/configSchema'
+import { tasksConfigNamespace } from './TaskManager/config-schema'
+import type { ConfigNamespaceDefinition } from './Config'
+
+/**
+ * CommonModule servislerinin ConfigurationService'e kaydettiği namespace'ler.
+ * Şema dosyaları doğrudan import edilir; config_schema.json üretimi bu
+ * listeyi tarayıcı bağımlılıkları olmadan Node'da yükler.
+ */
+export const COMMON_CONFIG_NAMESPACES: ConfigNamespaceDefinition<any>[] = [
+  networkConfigNamespace,
+  authConfigNamespace,
+  tasksConfigNamespace,
+  activityConfigNamespace,
+  storageConfigNamespace,
+  loggingConfigNamespace,
+  logPipelineConfigNamespace,
+  flagsConfigNamespace
+]
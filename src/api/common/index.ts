@@ -2,6 +2,7 @@ export * from './ActivityMonitor'
 export * from './Authentication'
 export * from './commonModule'
 export * from './Config'
+export * from './FeatureFlags'
 export * from './Logger'
 export * from './Network'
 export * from './Queue'
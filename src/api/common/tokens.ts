@@ -0,0 +1,30 @@
+import type { QueryClient } from '@tanstack/react-query'
+
+import { createServiceToken } from '@bipweb/core'
+
+import type { IActivityMonitor } from './ActivityMonitor'
+import type { IAuthManager } from './Authentication'
+import type { IConfigurationService } from './Config'
+import type { IFeatureFlagService } from './FeatureFlags'
+import type { ILogService } from './Logger'
+import type { INetworkChangeDetector } from './Network'
+import type { ITaskManager } from './TaskManager'
+
+/**
+ * CommonModule'ün container'a kaydettiği servislerin anahtarları.
+ * container.get(CommonTokens.AuthManager) dönüş tipini kendisi çıkarır.
+ */
+export const CommonTokens = {
+  QueryClient: createServiceToken<QueryClient>('QueryClient'),
+  ConfigurationService: createServiceToken<IConfigurationService>(
+    'ConfigurationService'
+  ),
+  LogService: createServiceToken<ILogService<any>>('LogService'),
+  NetworkChangeDetector: createServiceToken<INetworkChangeDetector>(
+    'NetworkChangeDetector'
+  ),
+  ActivityMonitor: createServiceToken<IActivityMonitor>('ActivityMonitor'),
+  TaskManager: createServiceToken<ITaskManager>('TaskManager'),
+  AuthManager: createServiceToken<IAuthManager>('AuthManager'),
+  FeatureFlags: createServiceToken<IFeatureFlagService>('FeatureFlags')
+} as const
@@ -6,28 +6,31 @@ import { BusinessModule } from '@bipweb/business'
 import { CommonModule } from '@bipweb/common'
 import { DataModule } from '@bipweb/data'
 
+import { ModuleManager } from './moduleManager'
+import { RpcClient, WorkerRpcToken } from './rpc'
 import { ServiceContainer } from './serviceContainer'
+import type { IAppModule } from './types'
 
 export class Bootstrapper {
-  worker: Worker
+  worker: Worker | null
+  rpc: RpcClient | null
   private readonly container: ServiceContainer
   private subscription: Subscription
-  private modules: { register: () => void }[]
+  private readonly modules: ModuleManager
 
   constructor() {
-    this.worker = new Worker(new URL('./worker.ts', import.meta.url), {
-      type: 'module'
-    })
+    this.worker = this.createWorker()
+    this.rpc = new RpcClient(this.worker)
     this.container = new ServiceContainer()
     this.subscription = new Subscription()
-    this.modules = [
-      new CommonModule(this.container),
-      new DataModule(this.container),
-      new BusinessModule(this.container)
-    ]
+    this.modules = new ModuleManager(this.container)
   }
 
   public async initialize(): Promise<ServiceContainer> {
+    if (!this.worker) {
+      this.worker = this.createWorker()
+      this.rpc = new RpcClient(this.worker)
+    }
     this.subscription = new Subscription()
     this.subscription.add(
       this.container.loading$.subscribe((loading) => {
@@ -45,11 +48,46 @@ export class Bootstrapper {
         if (err) console.error('Container Error:', err)
       })
     )
+    this.subscription.add(
+      this.container.degraded$.subscribe((state) => {
+        if (state)
+          console.warn(
+            'Container running in degraded mode:',
+            state.failedServices.map(
+              (f) => `${String(f.serviceName)} (${f.reason})`
+            )
+          )
+      })
+    )
+    this.subscription.add(
+      this.container.initReport$.subscribe((report) => {
+        if (!report || report.status === 'running') return
+        console.debug(
+          `Container init ${report.status} in ${report.durationMs?.toFixed(1)}ms`,
+          report.services.map((s) => ({
+            service: String(s.serviceName),
+            level: s.level,
+            status: s.status,
+            durationMs: Number(s.durationMs?.toFixed(1))
+          }))
+        )
+      })
+    )
 
     // await MigrationManager.applyInitialMigration()
 
-    this.registerServices()
-    await this.container.init()
+    this.container.registerInstance(WorkerRpcToken, this.rpc!)
+
+    // Modüller burada oluşturulur; constructor @bipweb/core yüklenirken
+    // çalıştığından modül sınıfları henüz tanımlı olmayabilir
+    if (!this.modules.size) {
+      this.modules.add(
+        new CommonModule(),
+        new DataModule(),
+        new BusinessModule()
+      )
+    }
+    await this.modules.bootstrap()
 
     return this.container
   }
@@ -58,12 +96,33 @@ export class Bootstrapper {
     return this.container
   }
 
+  /**
+   * Boot sonrasında bir feature modülü ekler; container hazırsa modülün
+   * servisleri hemen init edilir.
+   */
+  public async loadModule(module: IAppModule<any>): Promise<void> {
+    await this.modules.load(module)
+  }
+
   public async cleanup(): Promise<void> {
     if (this.subscription) {
       this.subscription.unsubscribe()
       this.subscription = new Subscription()
     }
-    this.container.reset()
+    try {
+      await this.modules.destroy()
+    } catch (err) {
+      console.error('Module Error:', err)
+    }
+    try {
+      await this.container.dispose()
+    } catch (err) {
+      console.error('Container Error:', err)
+    }
+    this.rpc?.dispose()
+    this.rpc = null
+    this.worker?.terminate()
+    this.worker = null
   }
 
   public async restart(): Promise<ServiceContainer> {
@@ -71,7 +130,9 @@ export class Bootstrapper {
     return this.initialize()
   }
 
-  private registerServices(): void {
-    this.modules.forEach((module) => module.register())
+  private createWorker(): Worker {
+    return new Worker(new URL('./worker.ts', import.meta.url), {
+      type: 'module'
+    })
   }
 }
@@ -9,6 +9,8 @@ import 'reflect-metadata'
 import { Bootstrapper } from './bootstrapper'
 
 export * from './bootstrapper'
+export * from './moduleManager'
+export * from './rpc'
 export * from './serviceContainer'
 export * from './types'
 export * from './utils'
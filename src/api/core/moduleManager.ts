@@ -0,0 +1,236 @@
+import { ServiceContainerError } from './serviceContainerError'
+import type {
+  IAppModule,
+  IServiceContainer,
+  ModuleRegistrar,
+  ServiceToken
+} from './types'
+import { DependencyGraph, getDependencies } from './utils'
+
+interface ModuleRecord {
+  module: IAppModule<any>
+  dependencies: Map<string, string[]>
+  registered: boolean
+  initialized: boolean
+}
+
+/**
+ * Modülleri imports sırasına göre container'a kaydeder, yaşam döngüsü
+ * hook'larını çağırır ve modüller arası servis erişimini exports listesine
+ * göre doğrular. Modül sırası da servislerle aynı DependencyGraph ile
+ * hesaplanır.
+ */
+export class ModuleManager {
+  private modules = new Map<string, ModuleRecord>()
+  private moduleGraph = new DependencyGraph()
+  private owners = new Map<string, string>()
+  private initialized: string[] = []
+
+  constructor(private readonly container: IServiceContainer) {}
+
+  get size(): number {
+    return this.modules.size
+  }
+
+  has(name: string): boolean {
+    return this.modules.has(name)
+  }
+
+  getModuleNames(): string[] {
+    return [...this.modules.keys()]
+  }
+
+  add(...modules: IAppModule<any>[]): void {
+    for (const module of modules) {
+      if (this.modules.has(module.name)) {
+        throw new ServiceContainerError(
+          `Module ${module.name} is already registered`
+        )
+      }
+      this.modules.set(module.name, {
+        module,
+        dependencies: new Map(),
+        registered: false,
+        initialized: false
+      })
+      this.moduleGraph.addInitDependency(module.name, '')
+      module.imports?.forEach((name) =>
+        this.moduleGraph.addInitDependency(module.name, name)
+      )
+    }
+  }
+
+  /**
+   * Eklenmiş tüm modülleri kaydeder, container'ı init eder ve modüllerin
+   * onModuleInit hook'larını import sırasıyla çağırır.
+   */
+  async bootstrap(): Promise<void> {
+    this.registerModules()
+    await this.container.init()
+    if (!this.container.isReady) return
+    await this.initModules()
+  }
+
+  /**
+   * Boot sonrasında bir feature modülü yükler (ör. lazy import edilen sohbet
+   * modülü). Import ettiği modüllerin önceden eklenmiş olması gerekir.
+   */
+  async load(module: IAppModule<any>): Promise<void> {
+    const missing = module.imports?.filter((name) => !this.modules.has(name))
+    if (missing?.length) {
+      throw new ServiceContainerError(
+        `Module ${module.name} imports unknown module(s) ${missing.join(', ')}`
+      )
+    }
+    this.add(module)
+    if (!this.container.isReady) return
+
+    this.registerModules()
+    await this.container.initPending()
+    await this.initModules()
+  }
+
+  /**
+   * onModuleDestroy hook'larını onModuleInit sırasının tersiyle çağırır.
+   * Modüller listede kalır; sonraki bootstrap() yeniden kaydeder.
+   */
+  async destroy(): Promise<void> {
+    const errors: unknown[] = []
+    for (const name of this.initialized.reverse()) {
+      try {
+        await this.modules.get(name)!.module.onModuleDestroy?.(this.container)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+    for (const record of this.modules.values()) {
+      record.registered = false
+      record.initialized = false
+      record.dependencies.clear()
+    }
+    this.initialized = []
+    this.owners.clear()
+
+    if (errors.length) {
+      throw new ServiceContainerError(
+        `${errors.length} module(s) failed to destroy`,
+        errors
+      )
+    }
+  }
+
+  private registerModules(): void {
+    const order = this.getOrder()
+    for (const name of order) {
+      const record = this.modules.get(name)!
+      if (record.registered) continue
+      record.module.register(this.createRegistrar(record))
+      record.registered = true
+    }
+    this.validateAccess(order)
+  }
+
+  private async initModules(): Promise<void> {
+    for (const name of this.getOrder()) {
+      const record = this.modules.get(name)!
+      if (record.initialized) continue
+      await record.module.onModuleInit?.(this.container)
+      record.initialized = true
+      this.initialized.push(name)
+    }
+  }
+
+  private getOrder(): string[] {
+    const cycles = this.moduleGraph.findCycles()
+    const unknown = this.moduleGraph.findUnknownDependencies((name) =>
+      this.modules.has(name)
+    )
+    if (cycles.length || unknown.length) {
+      throw new ServiceContainerError(
+        [
+          ...cycles.map(
+            (cycle) => `circular import: ${cycle.map(String).join(' -> ')}`
+          ),
+          ...unknown.map(
+            ({ service, dependency }) =>
+              `${String(service)} imports unknown module ${dependency}`
+          )
+        ].join('\n'),
+        { cycles, unknown }
+      )
+    }
+    return this.moduleGraph.getInitOrder() as string[]
+  }
+
+  /**
+   * Kayıtları container'a aktarırken token'ın sahibini ve servisin
+   * @dependsOn bağımlılıklarını modül kaydına işler.
+   */
+  private createRegistrar(record: ModuleRecord): ModuleRegistrar {
+    const track = (token: string, target?: object) => {
+      this.owners.set(token, record.module.name)
+      record.dependencies.set(
+        token,
+        target ? getDependencies(target).map(({ name }) => name) : []
+      )
+    }
+
+    return {
+      registerFactory: (token, factory) => {
+        track(token)
+        this.container.registerFactory(token, factory)
+      },
+      registerInstance: (token, instance) => {
+        track(token, instance.constructor)
+        this.container.registerInstance(token, instance)
+      },
+      registerDependency: (token, clazz, config) => {
+        track(token, clazz)
+        this.container.registerDependency(token, clazz, config)
+      }
+    }
+  }
+
+  /**
+   * Bir modülün servisi başka bir modülün servisine bağımlıysa o modülü
+   * import etmiş ve token'ın o modülce export edilmiş olması gerekir.
+   */
+  private validateAccess(order: string[]): void {
+    const issues: string[] = []
+    for (const name of order) {
+      const { module, dependencies } = this.modules.get(name)!
+
+      module.exports?.forEach((token) => {
+        if (this.owners.get(token) !== module.name) {
+          issues.push(`${module.name} exports ${token} it does not register`)
+        }
+      })
+
+      for (const [token, deps] of dependencies) {
+        for (const dep of deps) {
+          const owner = this.owners.get(dep)
+          if (!owner || owner === module.name) continue
+          const ownerModule = this.modules.get(owner)!.module
+          if (!module.imports?.includes(owner)) {
+            issues.push(
+              `${token} (${module.name}) depends on ${dep} but ${module.name} does not import ${owner}`
+            )
+          } else if (
+            !ownerModule.exports?.includes(dep as ServiceToken<unknown>)
+          ) {
+            issues.push(
+              `${token} (${module.name}) depends on ${dep} which ${owner} does not export`
+            )
+          }
+        }
+      }
+    }
+
+    if (issues.length) {
+      throw new ServiceContainerError(
+        `Module validation failed:\n  - ${issues.join('\n  - ')}`,
+        issues
+      )
+    }
+  }
+}
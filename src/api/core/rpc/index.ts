@@ -0,0 +1,5 @@
+export * from './remoteService'
+export * from './rpcClient'
+export * from './rpcError'
+export * from './rpcHost'
+export * from './transfer'
@@ -0,0 +1,22 @@
+import type { DependencyContainer } from 'tsyringe'
+
+import { createServiceToken } from '../utils/serviceToken'
+
+import { RpcClient } from './rpcClient'
+
+export const WorkerRpcToken = createServiceToken<RpcClient>('WorkerRpc')
+
+/**
+ * registerFactory için fabrika: servis core worker'da çalışır, container
+ * get() ile proxy'sini döner.
+ *
+ * @example
+ * container.registerFactory(
+ *   LogPersistenceToken,
+ *   remoteService<ILogPersistence>('LogPersistence')
+ * )
+ */
+export function remoteService<T extends object>(serviceName: string) {
+  return (dependencyContainer: DependencyContainer) =>
+    dependencyContainer.resolve<RpcClient>(WorkerRpcToken).proxy<T>(serviceName)
+}
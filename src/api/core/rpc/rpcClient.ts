@@ -0,0 +1,189 @@
+import { BehaviorSubject, filter, firstValueFrom, Observable } from 'rxjs'
+
+import type {
+  Remote,
+  RpcClientOptions,
+  RpcEndpoint,
+  RpcMessage,
+  RpcSignalPlaceholder
+} from '../types'
+
+import { deserializeError, RpcError } from './rpcError'
+import { getTransferables } from './transfer'
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+interface PendingCall {
+  resolve: (value: any) => void
+  reject: (reason?: any) => void
+  cleanup: () => void
+}
+
+/**
+ * Ana thread tarafı: worker'daki RpcHost'a istek gönderir ve yanıtları
+ * id ile eşleştirir. Argümanlardaki AbortSignal iptal mesajına çevrilir,
+ * transfer() ile işaretlenen nesnelerin sahipliği aktarılır. Worker
+ * error/messageerror verirse veya çağrı zaman aşımına uğrarsa bekleyen
+ * çağrılar RpcError ile reddedilir.
+ */
+export class RpcClient {
+  private nextId = 1
+  private pending = new Map<number, PendingCall>()
+
+  private servicesSubject = new BehaviorSubject<string[] | null>(null)
+  public services$: Observable<string[] | null> =
+    this.servicesSubject.asObservable()
+
+  private readonly timeoutMs: number
+
+  constructor(
+    private readonly endpoint: RpcEndpoint,
+    options: RpcClientOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.endpoint.addEventListener('message', this.handleMessage)
+    this.endpoint.addEventListener('error', this.handleError)
+    this.endpoint.addEventListener('messageerror', this.handleMessageError)
+  }
+
+  /**
+   * Worker'ın ready mesajını bekler; container init'i sırasında çağrılır.
+   */
+  async init(): Promise<void> {
+    await firstValueFrom(this.servicesSubject.pipe(filter(Boolean)))
+  }
+
+  call<R>(service: string, method: string, args: unknown[] = []): Promise<R> {
+    const signal = args.find(
+      (arg): arg is AbortSignal => arg instanceof AbortSignal
+    )
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+
+    const id = this.nextId++
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id)
+        this.endpoint.postMessage({ type: 'cancel', id }, [])
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      const timer =
+        this.timeoutMs > 0
+          ? setTimeout(() => {
+              this.settle(id)
+              this.endpoint.postMessage({ type: 'cancel', id }, [])
+              reject(
+                new RpcError(`RPC call ${service}.${method} timed out`, {
+                  timeoutMs: this.timeoutMs
+                })
+              )
+            }, this.timeoutMs)
+          : undefined
+
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      })
+
+      try {
+        this.endpoint.postMessage(
+          {
+            type: 'request',
+            id,
+            service,
+            method,
+            args: args.map((arg) =>
+              arg instanceof AbortSignal
+                ? ({ __rpcSignal: true } satisfies RpcSignalPlaceholder)
+                : arg
+            )
+          },
+          getTransferables(args)
+        )
+      } catch (error) {
+        // Klonlanamayan argüman (DataCloneError)
+        this.settle(id)
+        reject(error)
+      }
+    })
+  }
+
+  /**
+   * Worker'daki servisi yerel bir nesne gibi kullanmak için proxy döner;
+   * her metot çağrısı bir RPC isteğidir.
+   */
+  proxy<T extends object>(service: string): Remote<T> {
+    return new Proxy({} as Remote<T>, {
+      get: (_, property) => {
+        // Promise zincirlerinde thenable sanılmasın
+        if (typeof property !== 'string' || property === 'then') {
+          return undefined
+        }
+        return (...args: unknown[]) => this.call(service, property, args)
+      }
+    })
+  }
+
+  dispose(): void {
+    this.endpoint.removeEventListener('message', this.handleMessage)
+    this.endpoint.removeEventListener('error', this.handleError)
+    this.endpoint.removeEventListener('messageerror', this.handleMessageError)
+    this.rejectAll(new RpcError('RPC client disposed'))
+    this.servicesSubject.complete()
+  }
+
+  private handleMessage = (event: MessageEvent<RpcMessage>) => {
+    const message = event.data
+    if (message?.type === 'ready') {
+      this.servicesSubject.next(message.services)
+    } else if (message?.type === 'response') {
+      const call = this.settle(message.id)
+      if (!call) return
+      if (message.error) call.reject(deserializeError(message.error))
+      else call.resolve(message.result)
+    }
+  }
+
+  /**
+   * Worker'da yakalanmamış hata; hangi çağrının etkilendiği bilinemediği
+   * için hepsi reddedilir. Ready gelmeden düşen worker'da init() de reddedilir.
+   */
+  private handleError = (event: Event) => {
+    const error = new RpcError(
+      `Worker error: ${(event as ErrorEvent).message ?? 'unknown'}`,
+      {
+        filename: (event as ErrorEvent).filename,
+        lineno: (event as ErrorEvent).lineno
+      }
+    )
+    this.rejectAll(error)
+    if (!this.servicesSubject.getValue()) this.servicesSubject.error(error)
+  }
+
+  /**
+   * Yanıt deserialize edilemedi; id okunamadığı için hepsi reddedilir
+   */
+  private handleMessageError = () => {
+    this.rejectAll(new RpcError('Worker message could not be deserialized'))
+  }
+
+  private rejectAll(error: RpcError): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(error)
+    }
+  }
+
+  private settle(id: number): PendingCall | undefined {
+    const call = this.pending.get(id)
+    this.pending.delete(id)
+    call?.cleanup()
+    return call
+  }
+}
@@ -0,0 +1,46 @@
+import type { SerializedError } from '../types'
+
+/**
+ * Worker tarafında fırlatılan hatanın ana thread'deki karşılığı. name ve
+ * stack orijinal hatadan korunur.
+ */
+export class RpcError extends Error {
+  constructor(
+    message: string,
+    public context?: any
+  ) {
+    super(message)
+    this.name = 'RpcError'
+  }
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      context: toCloneable((error as { context?: unknown }).context)
+    }
+  }
+  return { name: 'Error', message: String(error) }
+}
+
+export function deserializeError(serialized: SerializedError): Error {
+  const error = new RpcError(serialized.message, serialized.context)
+  error.name = serialized.name
+  if (serialized.stack) error.stack = serialized.stack
+  return error
+}
+
+// Hata context'i structured clone edilemiyorsa (fonksiyon, DOM nesnesi vb.)
+// postMessage DataCloneError fırlatır; bu durumda context düşürülür
+function toCloneable(value: unknown): unknown {
+  if (value === undefined) return undefined
+  try {
+    structuredClone(value)
+    return value
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,100 @@
+import type {
+  RpcEndpoint,
+  RpcMessage,
+  RpcRequestMessage,
+  RpcSignalPlaceholder
+} from '../types'
+
+import { serializeError } from './rpcError'
+import { getTransferables } from './transfer'
+
+/**
+ * Worker içinde çalışır: expose edilen servislerin metotlarını ana
+ * thread'den gelen isteklerle çağırır, sonucu veya serileştirilmiş hatayı
+ * döner. Bekleyen çağrılar cancel mesajıyla AbortSignal üzerinden iptal
+ * edilir.
+ */
+export class RpcHost {
+  private services = new Map<string, object>()
+  private controllers = new Map<number, AbortController>()
+
+  constructor(private readonly endpoint: RpcEndpoint) {
+    this.endpoint.addEventListener('message', this.handleMessage)
+  }
+
+  expose<T extends object>(name: string, service: T): this {
+    this.services.set(name, service)
+    return this
+  }
+
+  /**
+   * Servisler expose edildikten sonra çağrılır; RpcClient.init() bu
+   * mesajı bekler.
+   */
+  ready(): void {
+    this.endpoint.postMessage(
+      { type: 'ready', services: [...this.services.keys()] },
+      []
+    )
+  }
+
+  private handleMessage = (event: MessageEvent<RpcMessage>) => {
+    const message = event.data
+    if (message?.type === 'request') {
+      void this.handleRequest(message)
+    } else if (message?.type === 'cancel') {
+      this.controllers.get(message.id)?.abort()
+    }
+  }
+
+  private async handleRequest({
+    id,
+    service,
+    method,
+    args
+  }: RpcRequestMessage): Promise<void> {
+    const controller = new AbortController()
+    this.controllers.set(id, controller)
+
+    try {
+      const target = this.services.get(service) as
+        | Record<string, unknown>
+        | undefined
+      if (!target) {
+        throw new Error(`Worker service ${service} is not exposed`)
+      }
+      const fn = target[method]
+      if (typeof fn !== 'function') {
+        // Container dispose sırasında proxy'ler üzerinden her servise
+        // dispose çağrılır; tanımlamayan servisler için sessizce geçilir
+        if (method === 'dispose') {
+          this.endpoint.postMessage({ type: 'response', id }, [])
+          return
+        }
+        throw new Error(`Worker service ${service} has no method ${method}`)
+      }
+
+      const result = await fn.apply(
+        target,
+        args.map((arg) =>
+          (arg as RpcSignalPlaceholder | null)?.__rpcSignal === true
+            ? controller.signal
+            : arg
+        )
+      )
+      if (controller.signal.aborted) return
+      this.endpoint.postMessage(
+        { type: 'response', id, result },
+        getTransferables([result])
+      )
+    } catch (error) {
+      if (controller.signal.aborted) return
+      this.endpoint.postMessage(
+        { type: 'response', id, error: serializeError(error) },
+        []
+      )
+    } finally {
+      this.controllers.delete(id)
+    }
+  }
+}
@@ -0,0 +1,19 @@
+const transferables = new WeakMap<object, Transferable[]>()
+
+/**
+ * Değeri postMessage ile kopyalamak yerine verilen nesnelerin sahipliğini
+ * aktararak gönderir (ör. büyük ArrayBuffer'lar). Hem argümanlarda hem de
+ * worker servislerinin dönüş değerlerinde kullanılabilir.
+ */
+export function transfer<T extends object>(value: T, list: Transferable[]): T {
+  transferables.set(value, list)
+  return value
+}
+
+export function getTransferables(values: unknown[]): Transferable[] {
+  return values.flatMap((value) =>
+    typeof value === 'object' && value !== null
+      ? transferables.get(value) || []
+      : []
+  )
+}
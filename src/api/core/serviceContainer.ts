@@ -2,14 +2,45 @@ import { BehaviorSubject, Observable } from 'rxjs'
 import { container, type DependencyContainer, Lifecycle } from 'tsyringe'
 
 import { ServiceContainerError } from './serviceContainerError'
-import type { IServiceContainer, IServiceWrapper } from './types'
-import { DependencyGraph } from './utils'
+import type {
+  DegradedState,
+  FailedService,
+  GraphExportFormat,
+  GraphValidationResult,
+  InitReport,
+  IServiceContainer,
+  IServiceWrapper,
+  ServiceConfig,
+  ServiceContainerOptions,
+  ServiceFailureReason,
+  ServiceInitRecord,
+  ServiceToken
+} from './types'
+import {
+  DependencyGraph,
+  exportGraphAsDot,
+  exportGraphAsMermaid,
+  getDependencies,
+  TimeoutError,
+  withTimeout
+} from './utils'
+
+const DEFAULT_OPTIONS: Required<ServiceContainerOptions> = {
+  name: 'root',
+  initTimeoutMs: 15000,
+  disposeTimeoutMs: 5000
+}
 
 export class ServiceContainer implements IServiceContainer {
   private isInitialized = false
   private isLoading = false
+  private isDisposing = false
+  private readonly options: Required<ServiceContainerOptions>
+  private readonly di: DependencyContainer
+  private scopes = new Map<string, ServiceContainer>()
   private dependencyGraph = new DependencyGraph()
-  private configMap = new Map<string | symbol, any>()
+  private configMap = new Map<string | symbol, ServiceConfig>()
+  private registrationCounts = new Map<string | symbol, number>()
 
   private loadingSubject = new BehaviorSubject<boolean | null>(null)
   public loading$: Observable<boolean | null> =
@@ -20,47 +51,124 @@ export class ServiceContainer implements IServiceContainer {
 
   private readySubject = new BehaviorSubject<boolean | null>(null)
   public ready$: Observable<boolean | null> = this.readySubject.asObservable()
+
+  private initReportSubject = new BehaviorSubject<InitReport | null>(null)
+  public initReport$: Observable<InitReport | null> =
+    this.initReportSubject.asObservable()
+
+  private degradedSubject = new BehaviorSubject<DegradedState | null>(null)
+  public degraded$: Observable<DegradedState | null> =
+    this.degradedSubject.asObservable()
   private resolvedServices = new Map<string | symbol, any>()
+  private lazyInits = new Map<string | symbol, Promise<void>>()
+  private failedServices = new Map<
+    string | symbol,
+    FailedService & { instance?: any }
+  >()
+
+  constructor(
+    options: ServiceContainerOptions = {},
+    private readonly parent?: ServiceContainer
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.di = parent ? parent.di.createChildContainer() : container
+  }
 
-  constructor() {}
+  get name(): string {
+    return this.options.name
+  }
+
+  /**
+   * Oturuma özel servisler için alt container oluşturur. Scope'a kaydedilen
+   * servisler kendi bağımlılık grafiğiyle init edilir ve scope.dispose() ile
+   * birlikte kapatılır; scope'ta bulunmayan servisler (LogService,
+   * ConfigurationService vb.) üst container'dan çözülür.
+   */
+  createScope(name: string): ServiceContainer {
+    if (this.scopes.has(name)) {
+      throw new ServiceContainerError(
+        `Scope ${name} already exists in ${this.name}`
+      )
+    }
+    const scope = new ServiceContainer({ ...this.options, name }, this)
+    this.scopes.set(name, scope)
+    return scope
+  }
+
+  getScope(name: string): ServiceContainer | undefined {
+    return this.scopes.get(name)
+  }
+
+  /**
+   * init() tamamlandıysa true; servisler get() ile alınabilir.
+   */
+  get isReady(): boolean {
+    return this.isInitialized
+  }
+
+  /**
+   * En az bir servis başlatılamadıysa true; container yine de ready$ yayar.
+   */
+  get isDegraded(): boolean {
+    return this.failedServices.size > 0
+  }
+
+  getFailedServices(): FailedService[] {
+    return [...this.failedServices.values()].map(
+      ({ serviceName, reason, error, timestamp }) => ({
+        serviceName,
+        reason,
+        error,
+        timestamp
+      })
+    )
+  }
 
   registerFactory<T extends object>(
-    serviceName: string,
+    serviceName: ServiceToken<T>,
     factory: (dependencyContainer: DependencyContainer) => T
   ) {
+    this.trackRegistration(serviceName)
     this.configMap.set(serviceName, {})
-    container.register(serviceName, {
+    this.di.register(serviceName, {
       useFactory: factory
     })
   }
 
-  registerInstance<T extends object>(serviceName: string, instance: T) {
+  registerInstance<T extends object>(
+    serviceName: ServiceToken<T>,
+    instance: T
+  ) {
+    this.trackRegistration(serviceName)
     this.configMap.set(serviceName, {})
-    container.register<T>(serviceName, { useValue: instance })
+    this.di.register<T>(serviceName, { useValue: instance })
     const ctor = (instance as { constructor: new (...args: any[]) => any })
       .constructor
 
-    const dependencies = Reflect.getMetadata('dependencies', ctor) || []
-    dependencies.forEach((dep: string) =>
-      this.dependencyGraph.addInitDependency(serviceName, dep)
+    // Bağımlılığı olmayan servisler de init sırasına girsin
+    this.dependencyGraph.addInitDependency(serviceName, '')
+    getDependencies(ctor).forEach(({ name, ...options }) =>
+      this.dependencyGraph.addInitDependency(serviceName, name, options)
     )
   }
 
   registerDependency<T>(
-    serviceName: string | symbol,
+    serviceName: ServiceToken<T>,
     clazz: new (...args: any[]) => T,
-    config?: Record<string, any>
+    config?: ServiceConfig
   ) {
+    this.trackRegistration(serviceName)
     this.configMap.set(serviceName, config || {})
-    container.register<T>(
+    this.di.register<T>(
       serviceName,
       { useClass: clazz },
       { lifecycle: Lifecycle.Singleton }
     )
 
-    const dependencies = Reflect.getMetadata('dependencies', clazz) || []
-    dependencies.forEach((dep: string) =>
-      this.dependencyGraph.addInitDependency(serviceName, dep)
+    // Bağımlılığı olmayan servisler de init sırasına girsin
+    this.dependencyGraph.addInitDependency(serviceName, '')
+    getDependencies(clazz).forEach(({ name, ...options }) =>
+      this.dependencyGraph.addInitDependency(serviceName, name, options)
     )
   }
 
@@ -70,55 +178,230 @@ export class ServiceContainer implements IServiceContainer {
     this.isLoading = true
     this.loadingSubject.next(true)
 
-    try {
-      const initOrder = this.dependencyGraph.getInitOrder()
-      //console.groupCollapsed('init')
-      //logService.info('service container init order:', initOrder)
-
-      for (const serviceName of initOrder) {
-        const config = this.configMap.get(serviceName)
-        const instance = container.resolve<IServiceWrapper>(serviceName)
-
-        if (instance?.configure) {
-          instance.configure(config)
-        }
-        if (typeof instance.init === 'function') {
-          await instance.init()
-        }
+    const report: InitReport = {
+      status: 'running',
+      startTime: Date.now(),
+      services: []
+    }
+    const started = performance.now()
+    this.publishInitReport(report)
 
-        this.resolvedServices.set(serviceName, instance)
+    try {
+      const validation = this.validate()
+      if (!validation.valid) {
+        throw new ServiceContainerError(
+          this.formatValidation(validation),
+          validation
+        )
       }
 
+      //console.groupCollapsed('init')
+      await this.initLevels(this.dependencyGraph.getInitLevels(), report)
+
       //console.groupEnd()
       this.isInitialized = true
+      report.status = this.isDegraded ? 'degraded' : 'success'
       this.readySubject.next(true)
     } catch (error: any) {
+      report.status = 'failed'
       this.errorSubject.next(
-        new ServiceContainerError(
-          'Service container initialization failed ',
-          error
-        )
+        error instanceof ServiceContainerError
+          ? error
+          : new ServiceContainerError(
+              'Service container initialization failed ',
+              error
+            )
       )
     } finally {
+      report.durationMs = performance.now() - started
+      report.endTime = report.startTime + report.durationMs
+      this.publishInitReport(report)
       this.isLoading = false
       this.loadingSubject.next(false)
     }
   }
 
-  get<T>(serviceName: string): T {
+  /**
+   * init() sonrasında kaydedilen servisleri (ör. sonradan yüklenen feature
+   * modülleri) init eder. Daha önce çözülmüş veya başarısız olmuş servislere
+   * dokunulmaz; grafik geçersizse hata fırlatır.
+   */
+  async initPending(): Promise<void> {
+    if (!this.isInitialized) return this.init()
+
+    const validation = this.validate()
+    if (!validation.valid) {
+      throw new ServiceContainerError(
+        this.formatValidation(validation),
+        validation
+      )
+    }
+
+    const levels = this.dependencyGraph
+      .getInitLevels()
+      .map((serviceNames) =>
+        serviceNames.filter(
+          (serviceName) =>
+            !this.resolvedServices.has(serviceName) &&
+            !this.failedServices.has(serviceName) &&
+            !this.isProvidedByParent(serviceName)
+        )
+      )
+    if (!levels.some((serviceNames) => serviceNames.length)) return
+
+    const report: InitReport = {
+      status: 'running',
+      startTime: Date.now(),
+      services: []
+    }
+    const started = performance.now()
+    try {
+      await this.initLevels(levels, report)
+      report.status = this.isDegraded ? 'degraded' : 'success'
+    } finally {
+      report.durationMs = performance.now() - started
+      report.endTime = report.startTime + report.durationMs
+      this.publishInitReport(report)
+    }
+  }
+
+  /**
+   * init() öncesi grafiği doğrular: döngüler (tam yol), kayıtlı olmayan
+   * bağımlılık adları ve iki kez kaydedilen servisler.
+   */
+  validate(): GraphValidationResult {
+    const cycles = this.dependencyGraph.findCycles()
+    const unknownDependencies = this.dependencyGraph.findUnknownDependencies(
+      (name) => this.di.isRegistered(name, true)
+    )
+    const duplicateRegistrations = [...this.registrationCounts]
+      .filter(([, count]) => count > 1)
+      .map(([serviceName]) => serviceName)
+
+    return {
+      valid:
+        !cycles.length &&
+        !unknownDependencies.length &&
+        !duplicateRegistrations.length,
+      cycles,
+      unknownDependencies,
+      duplicateRegistrations
+    }
+  }
+
+  /**
+   * Bağımlılık grafiğini DOT veya Mermaid metni olarak döner; son init
+   * raporu varsa düğümlere init süreleri eklenir.
+   */
+  exportGraph(format: GraphExportFormat = 'mermaid'): string {
+    const report = this.initReportSubject.getValue()
+    return format === 'dot'
+      ? exportGraphAsDot(this.dependencyGraph, report)
+      : exportGraphAsMermaid(this.dependencyGraph, report)
+  }
+
+  get<T>(serviceName: ServiceToken<T>): T {
     if (!this.isInitialized) {
       throw new ServiceContainerError(
-        `Service container not initialized. Cannot access ${serviceName}`
+        `Service container not initialized. Cannot access ${String(serviceName)}`
+      )
+    }
+
+    if (this.isProvidedByParent(serviceName)) {
+      return this.parent!.get<T>(serviceName)
+    }
+
+    const failure = this.failedServices.get(serviceName)
+    if (failure) {
+      throw new ServiceContainerError(
+        `Service ${String(serviceName)} is unavailable (${failure.reason})`,
+        failure.error
       )
     }
 
     if (!this.resolvedServices.has(serviceName)) {
-      this.resolvedServices.set(serviceName, container.resolve<T>(serviceName))
+      if (this.dependencyGraph.isLazy(serviceName)) {
+        return this.initLazyService<T>(serviceName)
+      }
+      this.resolvedServices.set(serviceName, this.di.resolve<T>(serviceName))
     }
 
     return this.resolvedServices.get(serviceName) as T
   }
 
+  tryGet<T>(serviceName: ServiceToken<T>): T | undefined {
+    try {
+      return this.get<T>(serviceName)
+    } catch {
+      return undefined
+    }
+  }
+
+  async getAsync<T>(serviceName: ServiceToken<T>): Promise<T> {
+    if (this.isInitialized && this.isProvidedByParent(serviceName)) {
+      return this.parent!.getAsync<T>(serviceName)
+    }
+    const instance = this.get<T>(serviceName)
+    await this.lazyInits.get(serviceName)
+    const failure = this.failedServices.get(serviceName)
+    if (failure) {
+      throw new ServiceContainerError(
+        `Service ${String(serviceName)} is unavailable (${failure.reason})`,
+        failure.error
+      )
+    }
+    return instance
+  }
+
+  /**
+   * Çözülmüş servislerin dispose() hook'larını ters init sırasıyla çağırır,
+   * ardından container'ı sıfırlar. Her servis için disposeTimeoutMs kadar
+   * beklenir; oluşan hatalar toplanıp tek bir ServiceContainerError olarak fırlatılır.
+   */
+  async dispose(): Promise<void> {
+    if (this.isDisposing) return
+    this.isDisposing = true
+
+    const errors: { serviceName: string | symbol; error: unknown }[] = []
+
+    try {
+      for (const scope of [...this.scopes.values()].reverse()) {
+        try {
+          await scope.dispose()
+        } catch (error) {
+          errors.push({ serviceName: `scope:${scope.name}`, error })
+        }
+      }
+
+      for (const serviceName of this.getDisposeOrder()) {
+        const instance =
+          this.resolvedServices.get(serviceName) ??
+          this.failedServices.get(serviceName)?.instance
+        if (typeof instance?.dispose !== 'function') continue
+
+        try {
+          await withTimeout(
+            Promise.resolve().then(() => instance.dispose()),
+            this.options.disposeTimeoutMs,
+            `${String(serviceName)} dispose timed out after ${this.options.disposeTimeoutMs}ms`
+          )
+        } catch (error) {
+          errors.push({ serviceName, error })
+        }
+      }
+    } finally {
+      this.isDisposing = false
+      this.reset()
+    }
+
+    if (errors.length) {
+      throw new ServiceContainerError(
+        `Service container dispose failed for: ${errors.map((e) => String(e.serviceName)).join(', ')}`,
+        errors
+      )
+    }
+  }
+
   /**
    * ServiceContainer'ı sıfırlar ve yeniden kullanılabilir hale getirir.
    */
@@ -127,9 +410,232 @@ export class ServiceContainer implements IServiceContainer {
     this.isLoading = false
     this.dependencyGraph = new DependencyGraph()
     this.configMap.clear()
+    this.registrationCounts.clear()
+    this.resolvedServices.clear()
+    this.lazyInits.clear()
+    this.failedServices.clear()
     this.loadingSubject.next(null)
     this.errorSubject.next(null)
     this.readySubject.next(null)
-    container.reset()
+    this.initReportSubject.next(null)
+    this.degradedSubject.next(null)
+    this.scopes.clear()
+    this.di.reset()
+    this.parent?.scopes.delete(this.name)
+  }
+
+  private trackRegistration(serviceName: string | symbol): void {
+    this.registrationCounts.set(
+      serviceName,
+      (this.registrationCounts.get(serviceName) ?? 0) + 1
+    )
+  }
+
+  private formatValidation(validation: GraphValidationResult): string {
+    const issues = [
+      ...validation.cycles.map(
+        (cycle) => `circular dependency: ${cycle.map(String).join(' -> ')}`
+      ),
+      ...validation.unknownDependencies.map(
+        ({ service, dependency }) =>
+          `${String(service)} depends on unregistered service ${dependency}`
+      ),
+      ...validation.duplicateRegistrations.map(
+        (serviceName) => `${String(serviceName)} registered more than once`
+      )
+    ]
+    return `Service graph validation failed:\n  - ${issues.join('\n  - ')}`
+  }
+
+  private publishInitReport(report: InitReport): void {
+    this.initReportSubject.next({
+      ...report,
+      services: report.services.map((record) => ({ ...record }))
+    })
+  }
+
+  private async initLevels(
+    levels: (string | symbol)[][],
+    report: InitReport
+  ): Promise<void> {
+    for (const [level, names] of levels.entries()) {
+      // Kayıtlı olmayan optional bağımlılıklar grafikte düğümdür ama init
+      // edilmez; aksi hâlde çözülemeyip degraded sayılırlar
+      const serviceNames = names.filter((serviceName) =>
+        this.di.isRegistered(serviceName, true)
+      )
+      await Promise.all(
+        serviceNames.map((serviceName) =>
+          this.initService(serviceName, level, report)
+        )
+      )
+      this.publishInitReport(report)
+    }
+  }
+
+  /**
+   * Tek bir servisi configure + init eder ve süresini rapora işler.
+   * Başarısız olan servis degraded listesine alınır; zorunlu bağımlılığı
+   * başarısız olan servisler 'skipped' olarak işaretlenip başlatılmaz.
+   */
+  private async initService(
+    serviceName: string | symbol,
+    level: number,
+    report: InitReport
+  ): Promise<void> {
+    if (this.isProvidedByParent(serviceName)) {
+      try {
+        this.parent!.get(serviceName as ServiceToken<unknown>)
+      } catch (error) {
+        this.markFailed(serviceName, error, 'init-failed')
+      }
+      return
+    }
+
+    const record: ServiceInitRecord = {
+      serviceName,
+      level,
+      startTime: Date.now(),
+      status: 'pending'
+    }
+    report.services.push(record)
+    const started = performance.now()
+
+    let instance: IServiceWrapper | undefined
+    try {
+      const failedDependency = this.findFailedDependency(serviceName)
+      if (failedDependency) {
+        record.status = 'skipped'
+        record.error = new ServiceContainerError(
+          `${String(serviceName)} skipped, dependency ${failedDependency} is unavailable`
+        )
+        this.markFailed(serviceName, record.error, 'dependency-failed')
+        return
+      }
+
+      const config = this.resolveConfig(serviceName)
+      instance = this.di.resolve<IServiceWrapper>(serviceName)
+
+      await withTimeout(
+        (async () => {
+          if (instance?.configure) {
+            await instance.configure(config)
+          }
+          if (typeof instance?.init === 'function') {
+            await instance.init()
+          }
+        })(),
+        this.options.initTimeoutMs,
+        `${String(serviceName)} init timed out after ${this.options.initTimeoutMs}ms`
+      )
+
+      this.resolvedServices.set(serviceName, instance)
+      record.status = 'success'
+    } catch (error) {
+      const timedOut = error instanceof TimeoutError
+      record.status = timedOut ? 'timeout' : 'failed'
+      record.error = error
+      this.markFailed(
+        serviceName,
+        error,
+        timedOut ? 'timeout' : 'init-failed',
+        instance
+      )
+    } finally {
+      record.durationMs = performance.now() - started
+      record.endTime = record.startTime + record.durationMs
+    }
+  }
+
+  private resolveConfig(serviceName: string | symbol): Record<string, any> {
+    const config = this.configMap.get(serviceName) ?? {}
+    return typeof config === 'function' ? config(this.di) : config
+  }
+
+  /**
+   * Lazy servisi ilk get() çağrısında çözer. configure senkron çağrılır,
+   * init tamamlanmasını beklemeden örnek döner; getAsync bu init'i bekler.
+   * init hatası degraded listesine işlenir.
+   */
+  private initLazyService<T>(serviceName: string | symbol): T {
+    const failedDependency = this.findFailedDependency(serviceName)
+    if (failedDependency) {
+      throw new ServiceContainerError(
+        `Service ${String(serviceName)} is unavailable, dependency ${failedDependency} failed`
+      )
+    }
+    const instance = this.di.resolve<IServiceWrapper>(serviceName)
+    this.resolvedServices.set(serviceName, instance)
+
+    const configured = instance?.configure?.(this.resolveConfig(serviceName))
+    this.lazyInits.set(
+      serviceName,
+      Promise.resolve(configured)
+        .then(() => instance.init?.())
+        .catch((error) => {
+          this.resolvedServices.delete(serviceName)
+          this.markFailed(serviceName, error, 'init-failed', instance)
+        })
+    )
+
+    return instance as T
+  }
+
+  /**
+   * Zorunlu (optional olmayan, eager) bağımlılıklardan başarısız olanı döner.
+   */
+  private findFailedDependency(serviceName: string | symbol): string | null {
+    const failed = this.dependencyGraph
+      .getDependencies(serviceName)
+      .find(
+        (dep) => !dep.optional && !dep.lazy && this.failedServices.has(dep.name)
+      )
+    return failed ? failed.name : null
+  }
+
+  /**
+   * Servisi degraded listesine alır. Optional bağımlılık olarak enjekte
+   * edenlerin undefined alması için token yeniden kaydedilir.
+   */
+  private markFailed(
+    serviceName: string | symbol,
+    error: unknown,
+    reason: ServiceFailureReason,
+    instance?: unknown
+  ): void {
+    this.failedServices.set(serviceName, {
+      serviceName,
+      reason,
+      error,
+      timestamp: Date.now(),
+      instance
+    })
+    if (this.di.isRegistered(serviceName, false)) {
+      this.di.register(serviceName, { useFactory: () => undefined })
+    }
+    this.degradedSubject.next({ failedServices: this.getFailedServices() })
+  }
+
+  /**
+   * Scope'ta kayıtlı olmayan servisler üst container'dan sağlanır.
+   */
+  private isProvidedByParent(serviceName: string | symbol): boolean {
+    return !!this.parent && !this.di.isRegistered(serviceName, false)
+  }
+
+  /**
+   * init sırasının tersi; init dışında get() ile çözülen servisler en önce kapatılır.
+   */
+  private getDisposeOrder(): (string | symbol)[] {
+    const initOrder = this.dependencyGraph.getInitOrder()
+    const lateResolved = [
+      ...this.resolvedServices.keys(),
+      ...this.failedServices.keys()
+    ].filter((serviceName) => !initOrder.includes(serviceName))
+    return [...lateResolved.reverse(), ...[...initOrder].reverse()].filter(
+      (serviceName) =>
+        this.resolvedServices.has(serviceName) ||
+        this.failedServices.get(serviceName)?.instance
+    )
   }
 }
@@ -0,0 +1,18 @@
+export type ServiceFailureReason =
+  | 'init-failed'
+  | 'timeout'
+  | 'dependency-failed'
+
+export interface FailedService {
+  serviceName: string | symbol
+  reason: ServiceFailureReason
+  error: unknown
+  timestamp: number
+}
+
+/**
+ * Bazı servisler başlatılamadığında container'ın çalışmaya devam ettiği durum.
+ */
+export interface DegradedState {
+  failedServices: FailedService[]
+}
@@ -0,0 +1,11 @@
+export interface GraphValidationResult {
+  valid: boolean
+  /**
+   * Her döngü tam yol olarak verilir, ilk ve son eleman aynıdır.
+   */
+  cycles: (string | symbol)[][]
+  unknownDependencies: { service: string | symbol; dependency: string }[]
+  duplicateRegistrations: (string | symbol)[]
+}
+
+export type GraphExportFormat = 'dot' | 'mermaid'
@@ -0,0 +1,44 @@
+import type { IServiceContainer } from './IServiceContainer'
+import type { ServiceToken } from './ServiceToken'
+
+/**
+ * Modüllerin register() içinde gördüğü container yüzeyi; ModuleManager
+ * kayıtları hangi modülün yaptığını bu nesne üzerinden izler.
+ */
+export type ModuleRegistrar = Pick<
+  IServiceContainer,
+  'registerFactory' | 'registerInstance' | 'registerDependency'
+>
+
+export interface IAppModule<TConfig extends object = object> {
+  /**
+   * Modülün tekil adı; diğer modüllerin imports listesinde bu ad kullanılır.
+   */
+  readonly name: string
+
+  /**
+   * Servislerine bağımlı olunan modüllerin adları. Bu modüller önce
+   * kaydedilir, onModuleInit önce onlarda çağrılır.
+   */
+  readonly imports?: string[]
+
+  /**
+   * Import eden modüllerin bağımlı olabileceği token'lar; listede olmayan
+   * servisler modüle özeldir.
+   */
+  readonly exports?: ServiceToken<unknown>[]
+
+  readonly config?: TConfig
+
+  register(container: ModuleRegistrar): void
+
+  /**
+   * Container init edildikten sonra çağrılır.
+   */
+  onModuleInit?(container: IServiceContainer): void | Promise<void>
+
+  /**
+   * Container dispose edilmeden önce, ters import sırasıyla çağrılır.
+   */
+  onModuleDestroy?(container: IServiceContainer): void | Promise<void>
+}
@@ -1,22 +1,90 @@
 import type { DependencyContainer } from 'tsyringe'
 
+import type { FailedService } from './DegradedState'
+import type {
+  GraphExportFormat,
+  GraphValidationResult
+} from './GraphValidation'
+import type { ServiceToken } from './ServiceToken'
+
+export interface ServiceContainerOptions {
+  /**
+   * Container adı; createScope ile açılan alt container'larda scope adıdır.
+   */
+  name?: string
+
+  /**
+   * Her servisin configure() + init() çağrısı için beklenecek en uzun süre (ms).
+   */
+  initTimeoutMs?: number
+
+  /**
+   * Her servisin dispose() çağrısı için beklenecek en uzun süre (ms).
+   */
+  disposeTimeoutMs?: number
+}
+
+/**
+ * registerDependency'e verilen config. Fonksiyon verilirse servis init
+ * edilmeden hemen önce çağrılır; böylece config, önce init edilen bir
+ * servisten (ör. ConfigurationService) okunabilir.
+ */
+export type ServiceConfig =
+  | Record<string, any>
+  | ((dependencyContainer: DependencyContainer) => Record<string, any>)
+
 export interface IServiceContainer {
   registerFactory<T extends object>(
-    serviceName: string,
+    serviceName: ServiceToken<T>,
     factory: (dependencyContainer: DependencyContainer) => T
   ): void
 
-  registerInstance<T extends object>(serviceName: string, instance: T): void
+  registerInstance<T extends object>(
+    serviceName: ServiceToken<T>,
+    instance: T
+  ): void
 
   registerDependency<T>(
-    serviceName: string | symbol,
+    serviceName: ServiceToken<T>,
     clazz: new (...args: any[]) => T,
-    config?: Record<string, any>
+    config?: ServiceConfig
   ): void
 
+  validate(): GraphValidationResult
+
+  exportGraph(format?: GraphExportFormat): string
+
   init(): Promise<void>
 
-  get<T>(serviceName: string): T
+  initPending(): Promise<void>
+
+  /**
+   * Lazy servis ilk çağrıda init'i beklenmeden döner; init'in bitmesi
+   * gerekiyorsa getAsync kullanılmalı
+   */
+  get<T>(serviceName: ServiceToken<T>): T
+
+  /**
+   * get() ile aynı, ancak lazy servisin configure/init'i bitince döner
+   * @throws ServiceContainerError if the service or its init failed
+   */
+  getAsync<T>(serviceName: ServiceToken<T>): Promise<T>
+
+  /**
+   * get() hata fırlatacaksa (servis degraded, kayıtlı değil veya container
+   * init edilmemiş) undefined döner
+   */
+  tryGet<T>(serviceName: ServiceToken<T>): T | undefined
+
+  createScope(name: string): IServiceContainer
+
+  readonly isReady: boolean
+
+  readonly isDegraded: boolean
+
+  getFailedServices(): FailedService[]
+
+  dispose(): Promise<void>
 
   reset(): void
 }
@@ -0,0 +1,27 @@
+export type ServiceInitStatus =
+  | 'pending'
+  | 'success'
+  | 'failed'
+  | 'timeout'
+  | 'skipped'
+
+export interface ServiceInitRecord {
+  serviceName: string | symbol
+  /**
+   * Bağımlılık grafiğindeki seviye; aynı seviyedeki servisler paralel başlar.
+   */
+  level: number
+  startTime: number
+  endTime?: number
+  durationMs?: number
+  status: ServiceInitStatus
+  error?: unknown
+}
+
+export interface InitReport {
+  status: 'running' | 'success' | 'degraded' | 'failed'
+  startTime: number
+  endTime?: number
+  durationMs?: number
+  services: ServiceInitRecord[]
+}
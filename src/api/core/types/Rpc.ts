@@ -0,0 +1,93 @@
+/**
+ * RPC mesajlarının gidip geldiği uç; hem Worker hem de worker içindeki
+ * self bu yüzeyi sağlar.
+ */
+export interface RpcEndpoint {
+  postMessage(message: unknown, transfer: Transferable[]): void
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<RpcMessage>) => void
+  ): void
+  addEventListener(
+    type: 'error' | 'messageerror',
+    listener: (event: Event) => void
+  ): void
+  removeEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<RpcMessage>) => void
+  ): void
+  removeEventListener(
+    type: 'error' | 'messageerror',
+    listener: (event: Event) => void
+  ): void
+}
+
+export interface RpcClientOptions {
+  /**
+   * Yanıt gelmeyen çağrı bu süre sonunda RpcError ile reddedilir;
+   * 0 zaman aşımını kapatır (varsayılan 60 sn)
+   */
+  timeoutMs?: number
+}
+
+export interface SerializedError {
+  name: string
+  message: string
+  stack?: string
+  context?: unknown
+}
+
+/**
+ * AbortSignal klonlanamadığı için argümanlarda bu işaretle gönderilir;
+ * host aynı konuma iptal edildiğinde abort olan kendi sinyalini koyar.
+ */
+export interface RpcSignalPlaceholder {
+  __rpcSignal: true
+}
+
+export interface RpcRequestMessage {
+  type: 'request'
+  id: number
+  service: string
+  method: string
+  args: unknown[]
+}
+
+export interface RpcCancelMessage {
+  type: 'cancel'
+  id: number
+}
+
+export interface RpcResponseMessage {
+  type: 'response'
+  id: number
+  result?: unknown
+  error?: SerializedError
+}
+
+/**
+ * Worker hazır olduğunda bir kez gönderilir; services expose edilen servis
+ * adlarıdır.
+ */
+export interface RpcReadyMessage {
+  type: 'ready'
+  services: string[]
+}
+
+export type RpcMessage =
+  | RpcRequestMessage
+  | RpcCancelMessage
+  | RpcResponseMessage
+  | RpcReadyMessage
+
+/**
+ * Worker'da çalışan servisin ana thread'deki görünümü: yalnızca metotlar
+ * kalır ve hepsi Promise döner.
+ */
+export type Remote<T> = {
+  [K in keyof T as T[K] extends (...args: any[]) => any
+    ? K
+    : never]: T[K] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<Awaited<R>>
+    : never
+}
@@ -0,0 +1,8 @@
+declare const serviceType: unique symbol
+
+/**
+ * Container anahtarı olarak kullanılan, servis tipini taşıyan string.
+ * Çalışma zamanında düz string'dir (tsyringe anahtarı); tip parametresi
+ * yalnızca derleme zamanında get() dönüş tipini çıkarmak için vardır.
+ */
+export type ServiceToken<T> = string & { readonly [serviceType]: T }
@@ -1,2 +1,8 @@
+export * from './DegradedState'
+export * from './GraphValidation'
+export * from './IAppModule'
+export * from './InitReport'
 export * from './IServiceContainer'
 export * from './IServiceWrapper'
+export * from './Rpc'
+export * from './ServiceToken'
@@ -4,4 +4,10 @@ export abstract class ServiceWrapper {
   abstract init?(data?: unknown): void | Promise<void>
 
   abstract configure?(config: unknown): void | Promise<void>
+
+  /**
+   * ServiceContainer kapatılırken ters init sırasıyla çağrılır.
+   * Socket, timer, worker ve BroadcastChannel gibi kaynaklar burada bırakılmalıdır.
+   */
+  abstract dispose?(): void | Promise<void>
 }
@@ -1,13 +1,56 @@
+import type { DependencyDescriptor, DependencyOptions } from './dependsOn'
+
 export class DependencyGraph {
-  private dependencies = new Map<string | symbol, Set<string>>()
+  private dependencies = new Map<
+    string | symbol,
+    Map<string, DependencyOptions>
+  >()
 
-  addInitDependency(service: string | symbol, dependsOn: string) {
+  addInitDependency(
+    service: string | symbol,
+    dependsOn: string,
+    options: DependencyOptions = {}
+  ) {
     if (!this.dependencies.has(service)) {
-      this.dependencies.set(service, new Set())
+      this.dependencies.set(service, new Map())
     }
     if (dependsOn) {
-      this.dependencies.get(service)!.add(dependsOn)
+      this.dependencies.get(service)!.set(dependsOn, options)
+    }
+  }
+
+  getNodes(): (string | symbol)[] {
+    const nodes = new Set<string | symbol>(this.dependencies.keys())
+    for (const deps of this.dependencies.values()) {
+      deps.forEach((_, dep) => nodes.add(dep))
+    }
+    return [...nodes]
+  }
+
+  getEdges(): ({ from: string | symbol; to: string } & DependencyOptions)[] {
+    return [...this.dependencies].flatMap(([from, deps]) =>
+      [...deps].map(([to, options]) => ({ ...options, from, to }))
+    )
+  }
+
+  getDependencies(service: string | symbol): DependencyDescriptor[] {
+    const deps = this.dependencies.get(service) || new Map()
+    return [...deps].map(([name, options]) => ({ ...options, name }))
+  }
+
+  /**
+   * Servise yalnızca lazy kenarlarla bağlanılıyorsa servis init sırasına
+   * alınmaz; ilk get() çağrısında çözülür.
+   */
+  isLazy(service: string | symbol): boolean {
+    let referenced = false
+    for (const deps of this.dependencies.values()) {
+      const options = typeof service === 'string' && deps.get(service)
+      if (!options) continue
+      if (!options.lazy) return false
+      referenced = true
     }
+    return referenced
   }
 
   getInitOrder(): (string | symbol)[] {
@@ -15,13 +58,25 @@ export class DependencyGraph {
     const tempMark = new Set<string | symbol>()
     const stack: (string | symbol)[] = []
 
+    const visitDependencies = (node: string | symbol) => {
+      for (const [dep, options] of this.dependencies.get(node) || []) {
+        if (!options.lazy) visit(dep)
+      }
+    }
+
+    const path: (string | symbol)[] = []
     const visit = (node: string | symbol) => {
-      if (tempMark.has(node))
-        throw new Error(`Circular dependency detected at ${String(node)}`)
+      if (tempMark.has(node)) {
+        const cycle = [...path.slice(path.indexOf(node)), node]
+        throw new Error(
+          `Circular dependency detected: ${cycle.map(String).join(' -> ')}`
+        )
+      }
       if (!visited.has(node)) {
         tempMark.add(node)
-        const _dependencies = this.dependencies.get(node) || new Set()
-        for (const dep of _dependencies) visit(dep)
+        path.push(node)
+        visitDependencies(node)
+        path.pop()
         tempMark.delete(node)
         visited.add(node)
         stack.push(node)
@@ -29,9 +84,81 @@ export class DependencyGraph {
     }
 
     for (const node of this.dependencies.keys()) {
-      visit(node)
+      // Lazy servisin kendisi atlanır, eager bağımlılıkları yine init edilir
+      if (this.isLazy(node)) visitDependencies(node)
+      else visit(node)
     }
 
     return stack
   }
+
+  /**
+   * Eager kenarlar üzerindeki tüm döngüleri tam yol olarak döner
+   * (ör. [A, B, C, A]). Lazy kenarlar döngü oluşturmaz.
+   */
+  findCycles(): (string | symbol)[][] {
+    const cycles: (string | symbol)[][] = []
+    const seen = new Set<string>()
+    const done = new Set<string | symbol>()
+    const path: (string | symbol)[] = []
+
+    const visit = (node: string | symbol) => {
+      const index = path.indexOf(node)
+      if (index !== -1) {
+        const cycle = path.slice(index)
+        // Aynı döngünün farklı başlangıç noktalı tekrarlarını ele
+        const key = [...cycle].map(String).sort().join('|')
+        if (!seen.has(key)) {
+          seen.add(key)
+          cycles.push([...cycle, node])
+        }
+        return
+      }
+      if (done.has(node)) return
+      path.push(node)
+      for (const [dep, options] of this.dependencies.get(node) || []) {
+        if (!options.lazy) visit(dep)
+      }
+      path.pop()
+      done.add(node)
+    }
+
+    for (const node of this.dependencies.keys()) visit(node)
+    return cycles
+  }
+
+  /**
+   * isKnown ile doğrulanamayan bağımlılık adlarını (ör. @dependsOn('Typo'))
+   * döner. Optional bağımlılıkların kayıtlı olmaması geçerlidir.
+   */
+  findUnknownDependencies(
+    isKnown: (name: string) => boolean
+  ): { service: string | symbol; dependency: string }[] {
+    return this.getEdges()
+      .filter((edge) => !edge.optional && !isKnown(edge.to))
+      .map((edge) => ({ service: edge.from, dependency: edge.to }))
+  }
+
+  /**
+   * Init sırasını seviyelere böler: bir servis, tüm bağımlılıklarının
+   * bulunduğu en yüksek seviyenin bir üstüne yerleşir. Aynı seviyedeki
+   * servislerin birbirine bağımlılığı yoktur ve paralel init edilebilir.
+   */
+  getInitLevels(): (string | symbol)[][] {
+    const levelOf = new Map<string | symbol, number>()
+    const levels: (string | symbol)[][] = []
+
+    for (const node of this.getInitOrder()) {
+      let level = 0
+      for (const [dep, options] of this.dependencies.get(node) || []) {
+        if (options.lazy) continue
+        level = Math.max(level, levelOf.get(dep)! + 1)
+      }
+      levelOf.set(node, level)
+      if (!levels[level]) levels[level] = []
+      levels[level].push(node)
+    }
+
+    return levels
+  }
 }
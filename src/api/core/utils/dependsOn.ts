@@ -1,5 +1,46 @@
-export function dependsOn(...dependencies: string[]) {
+import type { ServiceToken } from '../types'
+
+export interface DependencyOptions {
+  /**
+   * Bağımlılık init edilemezse servis yine başlar ve bağımlılık yerine undefined alır.
+   */
+  optional?: boolean
+  /**
+   * Bağımlılık init sırasında değil, ilk ServiceContainer.get() çağrısında çözülür.
+   */
+  lazy?: boolean
+}
+
+export interface DependencyDescriptor extends DependencyOptions {
+  name: ServiceToken<unknown>
+}
+
+export type DependencyDeclaration = ServiceToken<unknown> | DependencyDescriptor
+
+export function optionalDependency(
+  name: ServiceToken<unknown>,
+  options: Omit<DependencyOptions, 'optional'> = {}
+): DependencyDescriptor {
+  return { ...options, name, optional: true }
+}
+
+export function lazyDependency(
+  name: ServiceToken<unknown>,
+  options: Omit<DependencyOptions, 'lazy'> = {}
+): DependencyDescriptor {
+  return { ...options, name, lazy: true }
+}
+
+export function dependsOn(...dependencies: DependencyDeclaration[]) {
   return function (target: any) {
     Reflect.defineMetadata('dependencies', dependencies, target)
   }
 }
+
+export function getDependencies(target: any): DependencyDescriptor[] {
+  const dependencies: DependencyDeclaration[] =
+    Reflect.getMetadata('dependencies', target) || []
+  return dependencies.map((dep) =>
+    typeof dep === 'string' ? { name: dep } : dep
+  )
+}
@@ -0,0 +1,94 @@
+import type { InitReport, ServiceInitRecord } from '../types'
+
+import type { DependencyGraph } from './dependencyGraph'
+
+/**
+ * Bağımlılık grafiğini PR incelemeleri için metin olarak dışa aktarır.
+ * Kenar yönü servis -> bağımlılık şeklindedir; optional kenarlar kesikli,
+ * lazy kenarlar noktalı çizilir. InitReport verilirse düğümlere init süresi
+ * ve başarısız durumlar işlenir.
+ */
+
+function recordsByName(report?: InitReport | null) {
+  const records = new Map<string | symbol, ServiceInitRecord>()
+  report?.services.forEach((record) => records.set(record.serviceName, record))
+  return records
+}
+
+function nodeLabel(name: string | symbol, record?: ServiceInitRecord) {
+  if (!record || record.durationMs == null) return String(name)
+  const status = record.status === 'success' ? '' : ` ${record.status}`
+  return `${String(name)} (${record.durationMs.toFixed(1)}ms${status})`
+}
+
+function isFailed(record?: ServiceInitRecord) {
+  return !!record && record.status !== 'success' && record.status !== 'pending'
+}
+
+export function exportGraphAsDot(
+  graph: DependencyGraph,
+  report?: InitReport | null
+): string {
+  const records = recordsByName(report)
+  const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`
+
+  const lines = [
+    'digraph ServiceContainer {',
+    '  rankdir=LR',
+    '  node [shape=box]'
+  ]
+  for (const node of graph.getNodes()) {
+    const record = records.get(node)
+    const attrs = [`label=${quote(nodeLabel(node, record))}`]
+    if (isFailed(record)) attrs.push('color=red')
+    lines.push(`  ${quote(String(node))} [${attrs.join(', ')}]`)
+  }
+  for (const edge of graph.getEdges()) {
+    const attrs: string[] = []
+    if (edge.optional) attrs.push('style=dashed', 'label="optional"')
+    if (edge.lazy) attrs.push('style=dotted', 'label="lazy"')
+    lines.push(
+      `  ${quote(String(edge.from))} -> ${quote(edge.to)}${attrs.length ? ` [${attrs.join(', ')}]` : ''}`
+    )
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+export function exportGraphAsMermaid(
+  graph: DependencyGraph,
+  report?: InitReport | null
+): string {
+  const records = recordsByName(report)
+  const ids = new Map<string | symbol, string>()
+  const idOf = (name: string | symbol) => {
+    if (!ids.has(name)) {
+      ids.set(name, `n${ids.size}_${String(name).replace(/\W/g, '_')}`)
+    }
+    return ids.get(name)!
+  }
+
+  const lines = ['graph LR']
+  const failed: string[] = []
+  for (const node of graph.getNodes()) {
+    const record = records.get(node)
+    lines.push(
+      `  ${idOf(node)}["${nodeLabel(node, record).replace(/"/g, '#quot;')}"]`
+    )
+    if (isFailed(record)) failed.push(idOf(node))
+  }
+  for (const edge of graph.getEdges()) {
+    const arrow = edge.optional || edge.lazy ? '-.->' : '-->'
+    const label = [edge.optional && 'optional', edge.lazy && 'lazy']
+      .filter(Boolean)
+      .join(', ')
+    lines.push(
+      `  ${idOf(edge.from)} ${arrow}${label ? `|${label}|` : ''} ${idOf(edge.to)}`
+    )
+  }
+  if (failed.length) {
+    lines.push('  classDef failed stroke:#d33,color:#d33')
+    lines.push(`  class ${failed.join(',')} failed`)
+  }
+  return lines.join('\n')
+}
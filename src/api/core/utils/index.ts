@@ -1,2 +1,5 @@
 export * from './dependencyGraph'
 export * from './dependsOn'
+export * from './graphExporter'
+export * from './serviceToken'
+export * from './withTimeout'
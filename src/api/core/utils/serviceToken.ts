@@ -0,0 +1,10 @@
+import type { ServiceToken } from '../types'
+
+/**
+ * Modül yüklenirken çağrıldığı için bağımlılığı olmayan bir fonksiyon
+ * bildirimi olarak kalmalıdır (@bipweb/core ile modüller arasında döngüsel
+ * import var).
+ */
+export function createServiceToken<T>(name: string): ServiceToken<T> {
+  return name as ServiceToken<T>
+}
@@ -1,7 +1,13 @@
+import { RpcHost } from './rpc/rpcHost'
+import type { RpcEndpoint } from './types'
+import { workerServices } from './workerServices'
+
 try {
-  console.log('[Worker] initialize çağrılıyor')
-  self.postMessage({ id: 'init', result: '[Worker] initialized' })
+  const host = new RpcHost(self as unknown as RpcEndpoint)
+  Object.entries(workerServices).forEach(([name, service]) =>
+    host.expose(name, service)
+  )
+  host.ready()
 } catch (error) {
   console.error('[Worker] initialize hatası:', error)
-  self.postMessage({ id: 'init', error: (error as Error).message })
 }
@@ -0,0 +1,7 @@
+/**
+ * Core worker'da çalışacak servisler. Anahtar RpcHost'taki servis adıdır;
+ * ana thread'de remoteService(ad) ile proxy'si container'a kaydedilir.
+ * Bu dosya worker bundle'ına girer: @bipweb/core veya DOM'a bağımlı
+ * modüller import edilmemelidir.
+ */
+export const workerServices: Record<string, object> = {}
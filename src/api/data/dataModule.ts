@@ -1,13 +1,19 @@
-import { ServiceContainer } from '@bipweb/core'
+import {
+  createServiceToken,
+  type IAppModule,
+  type ModuleRegistrar
+} from '@bipweb/core'
 
-export class DataModule {
-  private container: ServiceContainer
+export const DataTokens = {
+  DataModule: createServiceToken<object>('DataModule')
+} as const
 
-  constructor(container: ServiceContainer) {
-    this.container = container
-  }
+export class DataModule implements IAppModule {
+  readonly name = 'DataModule'
+  readonly imports = ['CommonModule']
+  readonly exports = Object.values(DataTokens)
 
-  public register(): void {
-    this.container.registerInstance('DataModule', {})
+  public register(container: ModuleRegistrar): void {
+    container.registerInstance(DataTokens.DataModule, {})
   }
 }
@@ -34,3 +34,138 @@ export async function generateKey(): Promise<CryptoKey> {
     'decrypt'
   ])
 }
+
+/**
+ * Veri anahtarını sarmak için tarayıcı dışına çıkarılamayan AES-KW anahtarı
+ */
+export async function generateWrappingKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, false, [
+    'wrapKey',
+    'unwrapKey'
+  ])
+}
+
+/**
+ * Kullanıcı parolasından PBKDF2 ile AES-KW sarma anahtarı türetir
+ */
+export async function deriveWrappingKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  )
+}
+
+export async function wrapDataKey(
+  key: CryptoKey,
+  wrappingKey: CryptoKey
+): Promise<ArrayBuffer> {
+  return crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW')
+}
+
+/**
+ * Sarılı AES-GCM anahtarını açar; yanlış sarma anahtarında hata fırlatır
+ */
+export async function unwrapDataKey(
+  wrappedKey: ArrayBuffer,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrappedKey,
+    wrappingKey,
+    'AES-KW',
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Şifreli kayıtlarda arama indeksi için HMAC anahtarı; veri anahtarıyla
+ * birlikte sarılabilmesi için dışa aktarılabilir oluşturulur
+ */
+export async function generateIndexKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    true,
+    ['sign']
+  )
+}
+
+/**
+ * Sarılı HMAC anahtarını açar; yanlış sarma anahtarında hata fırlatır
+ */
+export async function unwrapIndexKey(
+  wrappedKey: ArrayBuffer,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrappedKey,
+    wrappingKey,
+    'AES-KW',
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * Değerin anahtarlı özetini döner; aynı anahtar ve değer hep aynı sonucu
+ * verdiği için şifreli veride eşitlik araması yapılabilir
+ */
+export async function blindIndex(
+  value: string,
+  key: CryptoKey
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(value)
+  )
+  return btoa(String.fromCharCode(...new Uint8Array(signature, 0, 16)))
+}
+
+/**
+ * İkili veriyi AES-GCM ile şifreler; IV sonucun ilk 12 baytıdır
+ */
+export async function encryptBytes(
+  data: ArrayBuffer,
+  key: CryptoKey
+): Promise<ArrayBuffer> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    data
+  )
+  const result = new Uint8Array(iv.length + encrypted.byteLength)
+  result.set(iv)
+  result.set(new Uint8Array(encrypted), iv.length)
+  return result.buffer
+}
+
+export async function decryptBytes(
+  data: ArrayBuffer,
+  key: CryptoKey
+): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(data, 0, 12) },
+    key,
+    new Uint8Array(data, 12)
+  )
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Drawer,
+  Dropdown,
+  FloatButton,
+  message,
+  Space,
+  Tabs
+} from 'antd'
+import FileSaver from 'file-saver'
+
+import {
+  CommonTokens,
+  type LogExportFormat,
+  logService as rootLogService
+} from '@bipweb/common'
+import type { ServiceContainer } from '@bipweb/core'
+
+import { createDiagnosticsBundle } from './diagnosticsBundle'
+import { LogAnalyticsPanel } from './LogAnalyticsPanel'
+import { LogViewer } from './LogViewer'
+
+const EXPORT_FORMATS: Array<{ format: LogExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'ndjson', label: 'NDJSON' },
+  { format: 'json', label: 'JSON' }
+]
+
+/**
+ * Geliştirici tanı paneli; yalnızca isDebugEnabled açıkken görünür.
+ * Kapalıyken sekmeler mount edilmez, log akışına abone olunmaz.
+ * ConfigurationService başlatılamadıysa panel yalnızca development
+ * build'inde, uyarıyla gösterilir.
+ */
+export function DiagnosticsDrawer({
+  container
+}: {
+  container: ServiceContainer
+}) {
+  const [conf] = useState(() =>
+    container.tryGet(CommonTokens.ConfigurationService)
+  )
+  const [logService] = useState(
+    () => container.tryGet(CommonTokens.LogService) ?? rootLogService
+  )
+  const [enabled, setEnabled] = useState(
+    () => conf?.get('isDebugEnabled') ?? import.meta.env.DEV
+  )
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!conf) return
+    const subscription = conf.select('isDebugEnabled').subscribe((value) => {
+      setEnabled(value)
+      if (!value) setOpen(false)
+    })
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [conf])
+
+  const run = async (action: string, task: () => Promise<unknown>) => {
+    setBusy(action)
+    try {
+      await task()
+    } catch (error) {
+      logService.error(`Diagnostics ${action} failed`, error)
+      message.error(`Diagnostics ${action} failed`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (!enabled) return null
+
+  return (
+    <>
+      <FloatButton
+        description="Logs"
+        tooltip="Diagnostics"
+        onClick={() => setOpen(true)}
+      />
+      <Drawer
+        title="Diagnostics"
+        width={960}
+        open={open}
+        destroyOnClose
+        onClose={() => setOpen(false)}
+        extra={
+          <Space>
+            <Dropdown
+              menu={{
+                items: EXPORT_FORMATS.map(({ format, label }) => ({
+                  key: format,
+                  label
+                })),
+                onClick: ({ key }) =>
+                  run('export', () =>
+                    logService.downloadLogs({ format: key as LogExportFormat })
+                  )
+              }}>
+              <Button loading={busy === 'export'}>Export</Button>
+            </Dropdown>
+            <Button
+              type="primary"
+              loading={busy === 'bundle'}
+              onClick={() =>
+                run('bundle', async () =>
+                  FileSaver.saveAs(
+                    await createDiagnosticsBundle(container),
+                    `diagnostics-${new Date().toISOString()}.json`
+                  )
+                )
+              }>
+              Bundle diagnostics
+            </Button>
+          </Space>
+        }>
+        {!conf && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message="Configuration service is unavailable"
+            description="The app is running degraded; the panel is shown because this is a development build."
+          />
+        )}
+        <Tabs
+          items={[
+            {
+              key: 'logs',
+              label: 'Logs',
+              children: <LogViewer logService={logService} />
+            },
+            {
+              key: 'analytics',
+              label: 'Analytics',
+              children: <LogAnalyticsPanel logService={logService} />
+            }
+          ]}
+        />
+      </Drawer>
+    </>
+  )
+}
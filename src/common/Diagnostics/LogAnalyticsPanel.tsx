@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button, Empty, Flex, Space, Statistic, Tag, Tooltip } from 'antd'
+
+import type {
+  ILogService,
+  LogAnalytics,
+  LogDailyCount,
+  LogStorageUsage
+} from '@bipweb/common'
+
+import { LEVEL_COLORS, LEVEL_NAMES } from './levels'
+
+const CHART_HEIGHT = 160
+
+/**
+ * Grafikte gösterilen en fazla gün; daha eskiler toplamlarda yer alır
+ */
+const CHART_DAYS = 30
+
+export function LogAnalyticsPanel({
+  logService
+}: {
+  logService: ILogService<any>
+}) {
+  const [analytics, setAnalytics] = useState<LogAnalytics | null>(null)
+  const [usage, setUsage] = useState<LogStorageUsage | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [analytics, usage] = await Promise.all([
+        logService.getLogAnalytics(),
+        logService.getStorageUsage()
+      ])
+      setAnalytics(analytics)
+      setUsage(usage)
+    } catch (error) {
+      logService.error('Failed to load log analytics', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [logService])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <Flex gap="large" wrap align="center">
+        <Statistic title="Entries" value={analytics?.total ?? 0} />
+        <Statistic
+          title="Per day"
+          value={analytics?.averagePerDay ?? 0}
+          precision={1}
+        />
+        <Statistic title="Archives" value={usage?.archives ?? 0} />
+        <Statistic
+          title="Log storage"
+          value={formatBytes(usage?.logBytes ?? 0)}
+        />
+        <Button onClick={load} loading={loading}>
+          Refresh
+        </Button>
+      </Flex>
+      <Flex gap="small" wrap>
+        {LEVEL_NAMES.filter((name) => analytics?.byLevel[name]).map((name) => (
+          <Tag key={name} color={LEVEL_COLORS[name]}>
+            {name}: {analytics!.byLevel[name]}
+          </Tag>
+        ))}
+      </Flex>
+      {analytics?.byDay.length ? (
+        <DailyChart days={analytics.byDay.slice(-CHART_DAYS)} />
+      ) : (
+        <Empty />
+      )}
+    </Space>
+  )
+}
+
+/**
+ * Seviyelere göre yığılmış günlük çubuk grafik
+ */
+function DailyChart({ days }: { days: LogDailyCount[] }) {
+  const max = Math.max(...days.map((day) => day.total))
+  return (
+    <Flex align="flex-end" gap={4} style={{ height: CHART_HEIGHT }}>
+      {days.map((day) => (
+        <Tooltip
+          key={day.date}
+          title={[
+            `${day.date}: ${day.total}`,
+            ...Object.entries(day.byLevel).map(
+              ([name, count]) => `${name}: ${count}`
+            )
+          ].join(' · ')}>
+          <Flex
+            vertical
+            justify="flex-end"
+            style={{
+              flex: 1,
+              maxWidth: 32,
+              height: `${(day.total / max) * 100}%`
+            }}>
+            {LEVEL_NAMES.filter((name) => day.byLevel[name]).map((name) => (
+              <div
+                key={name}
+                style={{
+                  flexGrow: day.byLevel[name],
+                  minHeight: 1,
+                  background: LEVEL_COLORS[name]
+                }}
+              />
+            ))}
+          </Flex>
+        </Tooltip>
+      ))}
+    </Flex>
+  )
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
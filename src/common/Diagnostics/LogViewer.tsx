@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button, Input, Select, Space, Switch, Table, Tag } from 'antd'
+import type { ColumnsType } from 'antd/es/table'
+
+import type { ILogService, LogEntry } from '@bipweb/common'
+import { safeJsonParse } from '@bipweb/utils'
+
+import {
+  LEVEL_COLORS,
+  LEVEL_NAMES,
+  type LogViewerFilter,
+  matchesViewerFilter
+} from './levels'
+
+const PAGE_SIZE = 100
+
+/**
+ * Canlı akışta ekranda tutulan en fazla kayıt
+ */
+const MAX_TAIL_ENTRIES = 1000
+
+const EMPTY_FILTER: LogViewerFilter = { levels: [], logger: '', keyword: '' }
+
+const columns: ColumnsType<LogEntry> = [
+  {
+    title: 'Time',
+    dataIndex: 'timestamp',
+    width: 200,
+    render: (timestamp: Date) => timestamp.toLocaleString()
+  },
+  {
+    title: 'Level',
+    dataIndex: 'levelName',
+    width: 90,
+    render: (levelName: string) => (
+      <Tag color={LEVEL_COLORS[levelName]}>{levelName}</Tag>
+    )
+  },
+  { title: 'Logger', dataIndex: 'logger', width: 160, ellipsis: true },
+  { title: 'Tab', dataIndex: 'tabId', width: 120, ellipsis: true },
+  { title: 'Message', dataIndex: 'message', ellipsis: true },
+  {
+    title: 'Correlation ID',
+    dataIndex: 'correlationId',
+    width: 120,
+    ellipsis: true
+  }
+]
+
+export function LogViewer({ logService }: { logService: ILogService<any> }) {
+  const [filter, setFilter] = useState<LogViewerFilter>(EMPTY_FILTER)
+  const [entries, setEntries] = useState<LogEntry[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState<number>()
+  const [loading, setLoading] = useState(false)
+  const [tail, setTail] = useState(true)
+  // Yüklenen sayfadan eski bir sorgunun sonucu listeyi ezmesin
+  const request = useRef(0)
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      const id = ++request.current
+      setLoading(true)
+      try {
+        const page = await logService.getLogs({
+          level: filter.levels.length ? filter.levels : undefined,
+          logger: filter.logger || undefined,
+          keyword: filter.keyword || undefined,
+          cursor,
+          pageSize: PAGE_SIZE
+        })
+        if (id !== request.current) return
+        setEntries((current) =>
+          cursor ? [...current, ...page.data] : page.data
+        )
+        setNextCursor(page.nextCursor)
+        if (!cursor) setTotal(page.total)
+      } catch (error) {
+        logService.error('Failed to load logs', error)
+      } finally {
+        if (id === request.current) setLoading(false)
+      }
+    },
+    [logService, filter]
+  )
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    if (!tail) return
+    return logService.subscribeToLogs((entry) => {
+      if (!matchesViewerFilter(entry, filter)) return
+      setEntries((current) => [entry, ...current].slice(0, MAX_TAIL_ENTRIES))
+      setTotal((current) => current && current + 1)
+    })
+  }, [logService, filter, tail])
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space wrap>
+        <Select
+          mode="multiple"
+          allowClear
+          placeholder="Levels"
+          style={{ minWidth: 200 }}
+          value={filter.levels}
+          options={LEVEL_NAMES.map((name) => ({ value: name, label: name }))}
+          onChange={(levels) => setFilter({ ...filter, levels })}
+        />
+        <Input.Search
+          allowClear
+          placeholder="Logger, e.g. Auth*"
+          style={{ width: 180 }}
+          onSearch={(logger) => setFilter({ ...filter, logger: logger.trim() })}
+        />
+        <Input.Search
+          allowClear
+          placeholder="Keyword"
+          style={{ width: 220 }}
+          onSearch={(keyword) =>
+            setFilter({ ...filter, keyword: keyword.trim() })
+          }
+        />
+        <Switch
+          checked={tail}
+          checkedChildren="Live"
+          unCheckedChildren="Paused"
+          onChange={setTail}
+        />
+        <Button onClick={() => load()} loading={loading}>
+          Refresh
+        </Button>
+        {total !== undefined && <span>{total} entries</span>}
+      </Space>
+      <Table<LogEntry>
+        size="small"
+        rowKey="id"
+        columns={columns}
+        dataSource={entries}
+        loading={loading}
+        pagination={false}
+        scroll={{ y: 480 }}
+        expandable={{
+          expandedRowRender: (entry) => (
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
+              {JSON.stringify(
+                {
+                  data: safeJsonParse(entry.data, entry.data),
+                  errors: entry.errors,
+                  source: entry.source,
+                  sessionId: entry.sessionId,
+                  tabId: entry.tabId,
+                  correlationId: entry.correlationId
+                },
+                null,
+                2
+              )}
+            </pre>
+          )
+        }}
+      />
+      {nextCursor && (
+        <Button block onClick={() => load(nextCursor)} loading={loading}>
+          Load more
+        </Button>
+      )}
+    </Space>
+  )
+}
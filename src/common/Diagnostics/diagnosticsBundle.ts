@@ -0,0 +1,76 @@
+import { firstValueFrom } from 'rxjs'
+
+import {
+  CommonTokens,
+  logService as rootLogService,
+  serializeError
+} from '@bipweb/common'
+import type { ServiceContainer } from '@bipweb/core'
+
+/**
+ * Pakete eklenen en yeni kayıt sayısı
+ */
+const BUNDLE_LOG_LIMIT = 1000
+
+/**
+ * Hata bildirimine eklenecek tek JSON dosyası: ortam, konfigürasyon, servis
+ * başlatma raporu, ağ durumu, log istatistikleri ve son kayıtlar. Bir bölüm
+ * okunamazsa paket yine oluşturulur, hata o bölüme yazılır.
+ */
+export async function createDiagnosticsBundle(
+  container: ServiceContainer
+): Promise<Blob> {
+  const logService = container.tryGet(CommonTokens.LogService) ?? rootLogService
+
+  const bundle = {
+    createdAt: new Date().toISOString(),
+    environment: {
+      url: location.href,
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: navigator.onLine
+    },
+    config: await section(
+      () => container.get(CommonTokens.ConfigurationService).data
+    ),
+    initReport: await firstValueFrom(container.initReport$),
+    failedServices: container.getFailedServices(),
+    network: await section(() => {
+      const network = container.get(CommonTokens.NetworkChangeDetector)
+      return { status: network.getStatus(), info: network.getNetworkInfo() }
+    }),
+    logs: {
+      encryption: logService.getEncryptionStatus(),
+      transports: logService.getTransports(),
+      usage: await section(() => logService.getStorageUsage()),
+      analytics: await section(() => logService.getLogAnalytics()),
+      archives: await section(() => logService.getArchives()),
+      entries: await section(
+        async () =>
+          (await logService.getLogs({ pageSize: BUNDLE_LOG_LIMIT })).data
+      )
+    }
+  }
+
+  return new Blob([JSON.stringify(bundle, toBundleValue, 2)], {
+    type: 'application/json'
+  })
+}
+
+/**
+ * Servis adlarındaki symbol'ler ve hatalar JSON'da kaybolmasın diye yazılır
+ */
+function toBundleValue(_key: string, value: unknown): unknown {
+  if (typeof value === 'symbol') return value.toString()
+  return value instanceof Error ? serializeError(value) : value
+}
+
+async function section<T>(
+  read: () => T | Promise<T>
+): Promise<T | { error: string }> {
+  try {
+    return await read()
+  } catch (error) {
+    return { error: String(error) }
+  }
+}
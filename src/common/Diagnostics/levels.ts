@@ -0,0 +1,58 @@
+import type { LogEntry, LogLevelName } from '@bipweb/common'
+
+export const LEVEL_NAMES: LogLevelName[] = [
+  'SILLY',
+  'TRACE',
+  'DEBUG',
+  'INFO',
+  'WARN',
+  'ERROR',
+  'FATAL',
+  'CUSTOM',
+  'INIT'
+]
+
+export const LEVEL_COLORS: Record<string, string> = {
+  SILLY: '#bfbfbf',
+  TRACE: '#8c8c8c',
+  DEBUG: '#13c2c2',
+  INFO: '#1677ff',
+  WARN: '#faad14',
+  ERROR: '#ff4d4f',
+  FATAL: '#a8071a',
+  CUSTOM: '#722ed1',
+  INIT: '#52c41a'
+}
+
+export interface LogViewerFilter {
+  levels: LogLevelName[]
+  /**
+   * Logger name; a trailing * matches a prefix
+   */
+  logger: string
+  keyword: string
+}
+
+/**
+ * Canlı akıştaki kayıtlar için getLogs filtresinin yaklaşık karşılığı;
+ * kelimeler mesajda büyük/küçük harf duyarsız aranır
+ */
+export function matchesViewerFilter(
+  entry: LogEntry,
+  { levels, logger, keyword }: LogViewerFilter
+): boolean {
+  if (levels.length && !levels.includes(entry.levelName as LogLevelName)) {
+    return false
+  }
+  if (logger) {
+    const matches = logger.endsWith('*')
+      ? entry.logger.startsWith(logger.slice(0, -1))
+      : entry.logger === logger
+    if (!matches) return false
+  }
+  const message = entry.message.toLowerCase()
+  return keyword
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => message.includes(word))
+}
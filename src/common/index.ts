@@ -1 +1,2 @@
 export * from './ComponentFactory'
+export * from './Diagnostics'
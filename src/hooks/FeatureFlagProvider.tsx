@@ -0,0 +1,54 @@
+import {
+  PropsWithChildren,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useState
+} from 'react'
+
+import { CommonTokens, type FeatureFlagEvaluation } from '@bipweb/common'
+import { ServiceContainer } from '@bipweb/core'
+
+import { FeatureFlagsContext } from './useFeatureFlags'
+
+/**
+ * FeatureFlagService başlatılamadıysa (degraded) flag'ler boş kalır;
+ * useFeatureFlag çağrıları varsayılan değerleri döner.
+ */
+export function FeatureFlagProvider({
+  children,
+  container
+}: PropsWithChildren<{
+  children?: ReactNode
+  container: ServiceContainer
+}>) {
+  const [featureFlags] = useState(() =>
+    container.tryGet(CommonTokens.FeatureFlags)
+  )
+  const [flags, setFlags] = useState<Record<string, FeatureFlagEvaluation>>({})
+
+  useEffect(() => {
+    if (!featureFlags) return
+    const subscription = featureFlags.flags$.subscribe((value) => {
+      setFlags(value)
+    })
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [featureFlags])
+
+  const value = useMemo(
+    () => ({
+      featureFlags,
+      flags
+    }),
+    [featureFlags, flags]
+  )
+
+  return (
+    <FeatureFlagsContext.Provider value={value}>
+      {children}
+    </FeatureFlagsContext.Provider>
+  )
+}
@@ -1 +1,3 @@
+export * from './FeatureFlagProvider'
 export * from './useConnection'
+export * from './useFeatureFlags'
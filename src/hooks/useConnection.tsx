@@ -7,7 +7,9 @@ import {
   useMemo,
   useState
 } from 'react'
+
 import {
+  CommonTokens,
   type IActivityMonitor,
   type IAuthManager,
   type IConfigurationService,
@@ -41,16 +43,14 @@ export function ConnectionProvider({
   children?: ReactNode
   container: ServiceContainer
 }>) {
-  const [conf] = useState(
-    container.get<IConfigurationService>('ConfigurationService')
-  )
+  const [conf] = useState(container.get(CommonTokens.ConfigurationService))
   const [activityMonitor] = useState(
-    container.get<IActivityMonitor>('ActivityMonitor')
+    container.get(CommonTokens.ActivityMonitor)
   )
-  const [taskManager] = useState(container.get<ITaskManager>('TaskManager'))
-  const [authManager] = useState(container.get<IAuthManager>('AuthManager'))
+  const [taskManager] = useState(container.get(CommonTokens.TaskManager))
+  const [authManager] = useState(container.get(CommonTokens.AuthManager))
   const [networkManager] = useState(
-    container.get<INetworkChangeDetector>('NetworkChangeDetector')
+    container.get(CommonTokens.NetworkChangeDetector)
   )
   const [session, setSesion] = useState<SessionContext>(
     authManager.sessionInfo$.getValue()
@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react'
+
+import type { FeatureFlagEvaluation, IFeatureFlagService } from '@bipweb/common'
+
+export interface FeatureFlagsContextType {
+  /**
+   * undefined when the service failed to start
+   */
+  featureFlags?: IFeatureFlagService
+  flags: Record<string, FeatureFlagEvaluation>
+}
+
+export const FeatureFlagsContext = createContext<
+  FeatureFlagsContextType | undefined
+>(undefined)
+
+export function useFeatureFlags() {
+  const context = useContext(FeatureFlagsContext)
+  if (!context) {
+    throw new Error('useFeatureFlags must be used within a FeatureFlagProvider')
+  }
+  return context
+}
+
+/**
+ * Flag tanımlı değilse defaultValue döner.
+ */
+export function useFeatureFlag(key: string, defaultValue = false): boolean {
+  const { flags } = useFeatureFlags()
+  return flags[key]?.enabled ?? defaultValue
+}
+
+export function useFeatureVariant(
+  key: string,
+  defaultVariant?: string
+): string | undefined {
+  const { flags } = useFeatureFlags()
+  return flags[key]?.variant ?? defaultVariant
+}
@@ -1,11 +1,13 @@
 import 'reflect-metadata'
 
 import { createRoot } from 'react-dom/client'
+
 import { logService } from '@bipweb/common'
 import { bootstrapper } from '@bipweb/core'
 
 import App from './App'
-import { ConnectionProvider } from './hooks'
+import { DiagnosticsDrawer } from './common'
+import { ConnectionProvider, FeatureFlagProvider } from './hooks'
 
 import './index.css'
 
@@ -18,8 +20,11 @@ log.info('App initialize')
 bootstrapper.initialize().then((container) => {
   createRoot(document.getElementById('root')!).render(
     <ConnectionProvider container={container}>
-      <App />
-      {/*<Example />*/}
+      <FeatureFlagProvider container={container}>
+        <App />
+        <DiagnosticsDrawer container={container} />
+        {/*<Example />*/}
+      </FeatureFlagProvider>
     </ConnectionProvider>
   )
 })